@@ -1,48 +1,154 @@
 import { Fragment, useCallback, useEffect, useMemo, useRef, useState, memo, createContext } from 'react'
 import throttle from 'lodash.throttle'
 import dbs, { DatabaseName } from './dbs/index'
-import localStorage from './dbs/localStorage'
+import { takeConnectionEvents } from './dbs/indexedDB'
+import { createLocalStorageDatabase } from './dbs/localStorage'
 import Benchmark from './lib/Benchmark'
+import getTestKey, { migrateTestKeys } from './lib/getTestKey'
+import keyValueBy from './lib/keyValueBy'
+import Contention from './lib/contention'
+import WorkerBenchmark from './lib/WorkerBenchmark'
+import { formatPayload } from './lib/payload'
+import { clearHistory, deleteRun, loadRuns, saveRun } from './lib/history'
+import { createRunExport, download, parseRunExport, toCsv } from './lib/runExport'
+import { sweepCombinations } from './lib/sweep'
 import FormRow from './components/FormRow'
+import PayloadBuilder from './components/PayloadBuilder'
+import RunHistory from './components/RunHistory'
+import ScenarioEditor from './components/ScenarioEditor'
+import SweepPanel from './components/SweepPanel'
 import BenchmarkResultTable from './components/BenchmarkResultTable'
 import BenchmarkResult from './types/BenchmarkResult'
-import generateTests from './tests'
-import PayloadType from './types/PayloadType'
+import BenchmarkStats from './types/BenchmarkStats'
+import CaseError from './types/CaseError'
+import ContentionLoad from './types/ContentionLoad'
+import { Durability } from './types/Database'
+import ExecutionContext from './types/ExecutionContext'
+import generateTests, { hasTag } from './tests'
+import OutlierFilter from './types/OutlierFilter'
+import PayloadConfig from './types/PayloadConfig'
+import RunExport from './types/RunExport'
+import Scenario from './types/Scenario'
+import SweepParam from './types/SweepParam'
+import SweepPoint from './types/SweepPoint'
+import TestTag from './types/TestTag'
+
+/** Tags that the results table can be filtered by. */
+const testTags: TestTag[] = ['read', 'write', 'bulk', 'index', 'multi-store']
 
 // throttle rate for re-rendering progress percentage
 const PROGRESS_THROTTLE = 33.333
 
-/** Clears all databases. */
+/** Clears all databases that are available in this browser. */
 const clearDbs = async (): Promise<void> => {
   const dbEntries = Object.entries(dbs)
   for (let i = 0; i < dbEntries.length; i++) {
     const [name, db] = dbEntries[i]
+    if (db.available?.() === false) continue
     await db.clear()
   }
 }
 
-// set up the localStorage store for benchmark settings that should be persisted between sessions
-localStorage.createStore('settings')
+// set up a localStorage store for benchmark settings that should be persisted between sessions
+// use a separate namespace so that settings are not deleted when the localStorage benchmark db is cleared
+const localSettings = createLocalStorageDatabase('settings')
+localSettings.createStore('settings')
 
-/** Set a value on localStorage (throttled). */
-const setLocalSetting = throttle((key: string, value: any): void => {
-  localStorage.set('settings', key, value)
-}, 100)
+/** Moves settings saved before settings were namespaced, when they were stored as a single JSON object in the 'settings' item. Settings that were already saved in the new format are kept. */
+const migrateLocalSettings = async (): Promise<void> => {
+  const legacy = localStorage.getItem('settings')
+  if (legacy == null) return
+  try {
+    const settings = JSON.parse(legacy)
+    for (const [key, value] of Object.entries(typeof settings === 'object' && settings ? settings : {})) {
+      if ((await localSettings.get('settings', key)) === undefined) {
+        await localSettings.set('settings', key, value)
+      }
+    }
+  } catch (e) {
+    console.error('Unable to migrate settings', e)
+  }
+  localStorage.removeItem('settings')
+}
+
+// one throttled writer per setting, so that writing one setting does not drop a pending write of another
+const localSettingWriters = new Map<string, (value: any) => void>()
+
+/** Set a value on localStorage (throttled per key). */
+const setLocalSetting = (key: string, value: any): void => {
+  let write = localSettingWriters.get(key)
+  if (!write) {
+    write = throttle((value: any) => {
+      localSettings.set('settings', key, value)
+    }, 100)
+    localSettingWriters.set(key, write)
+  }
+  write(value)
+}
 
 function App() {
   const [settingsLoaded, setSettingsLoaded] = useState<boolean>(false)
   const [iterations, setIterations] = useState<number>(100)
   const [limit, setLimit] = useState<number>(10)
-  const [payloadType, setPayloadType] = useState<PayloadType>('Uint8Array(1000)')
+  const [payload, setPayload] = useState<PayloadConfig>({
+    type: 'Uint8Array',
+    size: 1000,
+    content: 'zeros',
+    fields: 10,
+    seed: 1,
+  })
   const [total, setTotal] = useState<number>(10000)
+  const [warmupIterations, setWarmupIterations] = useState<number>(10)
+  const [verify, setVerify] = useState<boolean>(false)
+  const [iterationTimeout, setIterationTimeout] = useState<number>(10000)
+  const [caseTimeout, setCaseTimeout] = useState<number>(300000)
+  const [setupTimeout, setSetupTimeout] = useState<number>(60000)
+  const [rounds, setRounds] = useState<number>(1)
+  const [orderSeed, setOrderSeed] = useState<number>(1)
+  const [outliers, setOutliers] = useState<OutlierFilter>('none')
+  const [executionContext, setExecutionContext] = useState<ExecutionContext>('main')
+  const [durability, setDurability] = useState<Durability | 'all'>('relaxed')
+  const [baseline, setBaseline] = useState<RunExport | null>(null)
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [concurrency, setConcurrency] = useState<number>(8)
+  const [contentionLoad, setContentionLoad] = useState<ContentionLoad>('off')
+  const [helpers, setHelpers] = useState<number>(2)
+  const [history, setHistory] = useState<RunExport[]>([])
+  // only cases with at least one of these tags are shown and run; all cases if empty
+  const [tags, setTags] = useState<TestTag[]>([])
+  // incremented when a run finishes without being cancelled, to save it to the history once its results are rendered
+  const [finishedRuns, setFinishedRuns] = useState<number>(0)
+  // message of the error that stopped the last run, e.g. a failed worker or beforeAll
+  const [runError, setRunError] = useState<string | null>(null)
+  const [sweepPoints, setSweepPoints] = useState<SweepPoint[]>([])
+  const [sweepProgress, setSweepProgress] = useState<{ i: number; n: number } | null>(null)
+  // message of the error that stopped the last sweep
+  const [sweepError, setSweepError] = useState<string | null>(null)
+  // benchmark of the sweep combination in progress, so that the sweep can be cancelled
+  const sweepBenchmark = useRef<ReturnType<typeof Benchmark> | null>(null)
   const running = useRef<boolean>(false)
+  // true during the second pass of a run, while helpers run load against the database
+  const contended = useRef<boolean>(false)
+  const contention = useRef<ReturnType<typeof Contention> | null>(null)
+  // ms of each iteration of the cases in progress, by iteration index
+  const timelines = useRef<{ [key: string]: number[] }>({})
 
   const [skipped, setSkipped] = useState<{
     [key: string]: boolean
   }>({})
 
   const [benchmarkResults, setBenchmarkResults] = useState<{
-    // key: `${dbName}-${testName}`
+    // key: `${dbName}-${id}`
+    [key: string]: BenchmarkResult
+  }>({})
+
+  // results of the worker run when comparing execution contexts
+  const [workerResults, setWorkerResults] = useState<{
+    [key: string]: BenchmarkResult
+  }>({})
+
+  // results of the contended pass when running with contention helpers
+  const [contentionResults, setContentionResults] = useState<{
     [key: string]: BenchmarkResult
   }>({})
 
@@ -55,19 +161,33 @@ function App() {
     })
   }
 
+  /** Calls setScenarios and persists the value to local settings. */
+  const setScenariosPersisted = useCallback((scenariosNew: Scenario[]) => {
+    setScenarios(scenariosNew)
+    setLocalSetting('scenarios', scenariosNew)
+  }, [])
+
   /** Clears the database, benchmark results, and throttled progress timers. Assumes the benchmark is has already ended or been cancelled. */
   const clear = async () => {
     running.current = false
+    contended.current = false
+    contention.current?.stop()
+    contention.current = null
+    timelines.current = {}
+    setRunError(null)
     progress.cancel()
     beforeProgress.cancel()
     benchmark.clear()
+    workerBenchmark.clear()
     setBenchmarkResults({})
+    setWorkerResults({})
+    setContentionResults({})
     await clearDbs()
   }
 
-  /** Sets a benchmark result for a specific case. Only overwrites given properties. */
-  const setBenchmarkResult = (testKey: string, result: Partial<BenchmarkResult>) => {
-    setBenchmarkResults(resultsOld => ({
+  /** Sets a benchmark result for a specific case. Only overwrites given properties. Sets the worker result instead if compare is true, or the contention result during the contended pass. */
+  const setBenchmarkResult = (testKey: string, result: Partial<BenchmarkResult>, compare?: boolean) => {
+    ;(compare ? setWorkerResults : contended.current ? setContentionResults : setBenchmarkResults)(resultsOld => ({
       ...resultsOld,
       [testKey]: {
         ...resultsOld[testKey],
@@ -79,26 +199,35 @@ function App() {
   // throttled progress updater
   const progress = useCallback(
     throttle(
-      (testKey: string, { i }: { i: number }) => {
+      (testKey: string, { i }: { i: number }, compare?: boolean) => {
         if (!running.current) return
-        setBenchmarkResult(testKey, {
-          progress: i / iterations,
-        })
+        setBenchmarkResult(
+          testKey,
+          {
+            // iteration indexes are counted across rounds
+            progress: i / (iterations * rounds),
+          },
+          compare,
+        )
       },
       PROGRESS_THROTTLE,
       { leading: true, trailing: false },
     ),
-    [iterations],
+    [iterations, rounds],
   )
 
   // throttled before progress updater
   const beforeProgress = useCallback(
     throttle(
-      (testKey: string, { i }: { i: number }) => {
+      (testKey: string, { i }: { i: number }, compare?: boolean) => {
         if (!running.current) return
-        setBenchmarkResult(testKey, {
-          beforeProgress: i / total,
-        })
+        setBenchmarkResult(
+          testKey,
+          {
+            beforeProgress: i / total,
+          },
+          compare,
+        )
       },
       PROGRESS_THROTTLE,
       { leading: true, trailing: false },
@@ -106,42 +235,138 @@ function App() {
     [total],
   )
 
+  /** Generates the progress and result callbacks of a benchmark. If compare is true, results are written to the worker results. */
+  const benchmarkCallbacks = (compare?: boolean) => ({
+    iteration: (testKey: string, stats: { i: number; ms: number }) => {
+      ;(timelines.current[testKey] = timelines.current[testKey] || [])[stats.i] = stats.ms
+      progress(testKey, stats, compare)
+    },
+    preMeasureIteration: (testKey: string, { i }: { i: number }) => {
+      beforeProgress(testKey, { i }, compare)
+      if (i === total - 1) {
+        beforeProgress.flush()
+        setBenchmarkResult(testKey, { beforeProgress: 1 }, compare)
+      }
+    },
+    verified: (testKey: string, mismatch?: string) =>
+      setBenchmarkResult(testKey, { verified: true, mismatch }, compare),
+    failed: (testKey: string, error: CaseError) => {
+      beforeProgress.cancel()
+      progress.cancel()
+      delete timelines.current[testKey]
+      setBenchmarkResult(testKey, { error }, compare)
+    },
+    cycle: (testKey: string, stats: BenchmarkStats) => {
+      beforeProgress.cancel()
+      progress.flush()
+      const timeline = timelines.current[testKey]
+      delete timelines.current[testKey]
+      setBenchmarkResult(
+        testKey,
+        {
+          ...stats,
+          beforeProgress: 1,
+          progress: 1,
+          timeline,
+          ...(contended.current && contention.current
+            ? { contention: { ...takeConnectionEvents(), ...contention.current.takeEvents() } }
+            : null),
+        },
+        compare,
+      )
+    },
+  })
+
   const benchmark = useMemo(
     () =>
       Benchmark({
         iterations,
-        iteration: progress,
-        preMeasureIteration: (testKey, { i }) => {
-          beforeProgress(testKey, { i })
-          if (i === total - 1) {
-            beforeProgress.flush()
-            setBenchmarkResult(testKey, { beforeProgress: 1 })
-          }
-        },
+        warmupIterations,
+        outliers,
+        verify,
+        iterationTimeout,
+        caseTimeout,
+        setupTimeout,
+        rounds,
+        orderSeed,
         preMeasureIterations: total,
-        cycle: (testKey, { mean }) => {
-          beforeProgress.cancel()
-          progress.flush()
-          setBenchmarkResult(testKey, {
-            mean,
-            beforeProgress: 1,
-            progress: 1,
-          })
-        },
         beforeAll: clearDbs,
         afterAll: clearDbs,
+        ...benchmarkCallbacks(),
       }),
-    [iterations, total],
+    [
+      iterations,
+      total,
+      warmupIterations,
+      outliers,
+      verify,
+      iterationTimeout,
+      caseTimeout,
+      setupTimeout,
+      rounds,
+      orderSeed,
+    ],
+  )
+
+  const workerBenchmark = useMemo(
+    () =>
+      WorkerBenchmark({
+        config: {
+          payload,
+          total,
+          limit,
+          iterations,
+          warmupIterations,
+          outliers,
+          durability,
+          scenarios,
+          concurrency,
+          verify,
+          iterationTimeout,
+          caseTimeout,
+          setupTimeout,
+          rounds,
+          orderSeed,
+        },
+        ...benchmarkCallbacks(executionContext === 'both'),
+        unsupported: (testKey: string) =>
+          setBenchmarkResult(testKey, { unsupported: true }, executionContext === 'both'),
+      }),
+    [
+      payload,
+      total,
+      limit,
+      iterations,
+      warmupIterations,
+      outliers,
+      durability,
+      scenarios,
+      concurrency,
+      verify,
+      iterationTimeout,
+      caseTimeout,
+      setupTimeout,
+      rounds,
+      orderSeed,
+      executionContext,
+    ],
   )
 
   const tests = useMemo(
-    () => generateTests({ payloadType, iterations, limit, total }),
-    [payloadType, limit, iterations, total],
+    () =>
+      keyValueBy(
+        generateTests({ concurrency, durability, payload, iterations, limit, scenarios, total }),
+        (dbname, dbTests) => ({
+          [dbname]: dbTests.filter(test => hasTag(test, tags)),
+        }),
+      ),
+    [concurrency, durability, payload, limit, iterations, scenarios, tags, total],
   )
 
   /** Cancels the current run and clears the benchmark results. */
   const cancel = async () => {
     benchmark.cancel()
+    workerBenchmark.cancel()
     clear()
   }
 
@@ -151,45 +376,261 @@ function App() {
     await clear()
     running.current = true
 
-    // add a case for each db to benchmark
-    const dbEntries = Object.entries(dbs)
-    for (let i = 0; i < dbEntries.length; i++) {
-      const [dbname, db] = dbEntries[i]
+    try {
+      // add a case for each db to benchmark
+      const dbEntries = Object.entries(dbs)
+      for (let i = 0; i < dbEntries.length; i++) {
+        const [dbname, db] = dbEntries[i]
+        if (db.available?.() === false) continue
 
-      await db.open?.()
-      tests[dbname].forEach(({ prefill, measure, spec }) => {
-        const testKey = `${dbname}-${prefill}-${measure}`
-        if (!skipped[testKey]) {
-          benchmark.add(testKey, spec)
+        await db.open?.()
+        tests[dbname].forEach(test => {
+          const testKey = getTestKey(dbname, test)
+          if (skipped[testKey] || test.unsupported) return
+          if (executionContext !== 'worker') {
+            benchmark.add(testKey, test.spec)
+          }
+          if (executionContext !== 'main') {
+            workerBenchmark.add(testKey)
+          }
+        })
+        await db.close?.()
+      }
+
+      if (running.current && executionContext !== 'worker') {
+        await benchmark.run()
+      }
+      // run the main thread cases again while helpers run load against the same database
+      if (running.current && executionContext !== 'worker' && contentionLoad !== 'off') {
+        contention.current = Contention({ helpers, load: contentionLoad })
+        try {
+          await contention.current.start()
+          takeConnectionEvents()
+          contention.current.takeEvents()
+          contended.current = true
+          await benchmark.run()
+        } catch (e) {
+          alert(`Unable to run with contention: ${(e as Error).message}`)
+        } finally {
+          contended.current = false
+          contention.current?.stop()
+          contention.current = null
         }
-      })
-      await db.close?.()
+      }
+      if (running.current && executionContext !== 'main') {
+        await workerBenchmark.run()
+      }
+      if (running.current) {
+        setFinishedRuns(n => n + 1)
+      }
+    } catch (e) {
+      setRunError((e as Error)?.message ?? String(e))
+    } finally {
+      running.current = false
+      progress.cancel()
+      beforeProgress.cancel()
     }
+  }
 
-    if (running.current) {
-      await benchmark.run()
-    }
+  /** Runs the selected cases on the main thread once for every combination of the sweep values. Each combination is a separate Benchmark since total, limit, and payload size are baked into the generated tests. */
+  const runSweep = useCallback(
+    async (values: { [param in SweepParam]: number[] }) => {
+      if (running.current) return
+
+      await clear()
+      running.current = true
+      setSweepPoints([])
+      setSweepError(null)
+
+      try {
+        const combinations = sweepCombinations(values)
+        for (let i = 0; i < combinations.length && running.current; i++) {
+          setSweepProgress({ i, n: combinations.length })
+          const params = { total, limit, size: payload.size, ...combinations[i] }
+          const sweepTests = generateTests({
+            concurrency,
+            durability,
+            payload: { ...payload, size: params.size },
+            iterations,
+            limit: params.limit,
+            scenarios,
+            total: params.total,
+          })
+
+          // map each test key back to its db and test id, since db names and test ids may both contain dashes
+          const testNames = new Map<string, [string, string]>()
+          const results: SweepPoint['results'] = {}
+          sweepBenchmark.current = Benchmark({
+            iterations,
+            warmupIterations,
+            outliers,
+            iterationTimeout,
+            caseTimeout,
+            setupTimeout,
+            rounds,
+            orderSeed,
+            preMeasureIterations: params.total,
+            beforeAll: clearDbs,
+            afterAll: clearDbs,
+            cycle: (testKey, stats) => {
+              const [dbname, testName] = testNames.get(testKey)!
+              results[dbname] = { ...results[dbname], [testName]: stats }
+            },
+          })
+
+          const dbEntries = Object.entries(dbs)
+          for (let j = 0; j < dbEntries.length; j++) {
+            const [dbname, db] = dbEntries[j]
+            if (db.available?.() === false) continue
+
+            await db.open?.()
+            sweepTests[dbname as DatabaseName].forEach(test => {
+              const testKey = getTestKey(dbname, test)
+              if (skipped[testKey] || test.unsupported || !hasTag(test, tags)) return
+              testNames.set(testKey, [dbname, test.id])
+              sweepBenchmark.current!.add(testKey, test.spec)
+            })
+            await db.close?.()
+          }
+
+          await sweepBenchmark.current.run()
+          if (running.current) {
+            setSweepPoints(pointsOld => [...pointsOld, { params, results }])
+          }
+        }
+      } catch (e) {
+        setSweepError((e as Error)?.message ?? String(e))
+      } finally {
+        sweepBenchmark.current = null
+        setSweepProgress(null)
+        running.current = false
+      }
+    },
+    [
+      caseTimeout,
+      concurrency,
+      durability,
+      iterationTimeout,
+      iterations,
+      limit,
+      orderSeed,
+      outliers,
+      payload,
+      rounds,
+      scenarios,
+      setupTimeout,
+      skipped,
+      tags,
+      total,
+      warmupIterations,
+    ],
+  )
+
+  /** Cancels the sweep in progress. Points of finished combinations are kept. */
+  const cancelSweep = useCallback(() => {
+    sweepBenchmark.current?.cancel()
     running.current = false
+  }, [])
+
+  // save each finished run to the history
+  useEffect(() => {
+    if (finishedRuns === 0) return
+    createRunExport({
+      config: { payload, total, limit, iterations, durability, concurrency, rounds, orderSeed },
+      results: benchmarkResults,
+      skipped,
+    })
+      .then(saveRun)
+      .then(loadRuns)
+      .then(setHistory)
+      .catch(e => console.error('Unable to save run to history', e))
+  }, [finishedRuns])
+
+  /** Deletes a run from the history. */
+  const deleteHistoryRun = useCallback(async (timestamp: string) => {
+    await deleteRun(timestamp)
+    setHistory(await loadRuns())
+  }, [])
+
+  /** Deletes all runs from the history. */
+  const clearAllHistory = useCallback(async () => {
+    if (!confirm('Delete all saved runs?')) return
+    await clearHistory()
+    setHistory([])
+  }, [])
+
+  /** Downloads the results of the current run with config and environment metadata. */
+  const exportResults = async (format: 'json' | 'csv') => {
+    const runExport = await createRunExport({
+      config: { payload, total, limit, iterations, durability, concurrency, rounds, orderSeed },
+      results: benchmarkResults,
+      skipped,
+    })
+    const filename = `indexeddb-benchmark-${runExport.timestamp.replace(/[:.]/g, '-')}.${format}`
+    if (format === 'json') {
+      download(filename, JSON.stringify(runExport, null, 2), 'application/json')
+    } else {
+      download(filename, toCsv(runExport), 'text/csv')
+    }
+  }
+
+  /** Loads a previously exported JSON run as the baseline to compare against. */
+  const loadBaseline = async (file: File) => {
+    try {
+      setBaseline(parseRunExport(await file.text()))
+    } catch (e) {
+      alert(`Unable to load baseline: ${(e as Error).message}`)
+    }
   }
 
   useEffect(() => {
     clearDbs()
-    localStorage.get('settings', 'skipped').then(skipped => {
-      if (skipped) {
-        setSkipped(skipped)
-      }
-      setSettingsLoaded(true)
+    migrateLocalSettings().then(() => {
+      Promise.all([localSettings.get('settings', 'skipped'), localSettings.get('settings', 'scenarios')]).then(
+        ([skipped, scenarios]) => {
+          if (scenarios) {
+            setScenarios(scenarios)
+          }
+          if (skipped) {
+            // skipped cases were keyed by their labels before tests had ids
+            // the config is not persisted, so the labels were generated with the default config
+            setSkipped(
+              migrateTestKeys(
+                skipped,
+                generateTests({
+                  concurrency,
+                  durability,
+                  payload,
+                  iterations,
+                  limit,
+                  scenarios: scenarios || [],
+                  total,
+                }),
+              ),
+            )
+          }
+          setSettingsLoaded(true)
+        },
+      )
+      localSettings.get('settings', 'tags').then(tags => {
+        if (tags) {
+          setTags(tags)
+        }
+      })
     })
+    loadRuns()
+      .then(setHistory)
+      .catch(e => console.error('Unable to load history', e))
   }, [])
 
   /** Toggles all tests skipped at once. */
   const toggleAllSkipped = useCallback(
     (dbname: DatabaseName, value?: boolean) => {
       setSkippedPersisted(skippedOld => {
-        const firstSkipped = skippedOld[`${dbname}-${tests[dbname][0].prefill}-${tests[dbname][0].measure}`]
+        if (tests[dbname].length === 0) return skippedOld
+        const firstSkipped = skippedOld[getTestKey(dbname, tests[dbname][0])]
         return tests[dbname].reduce((accum, test) => {
-          const testKey = `${dbname}-${test.prefill}-${test.measure}`
-          return { ...accum, [testKey]: value ?? !firstSkipped }
+          return { ...accum, [getTestKey(dbname, test)]: value ?? !firstSkipped }
         }, skippedOld)
       })
     },
@@ -224,14 +665,7 @@ function App() {
         <div style={{ margin: '0 auto' }}>
           <table style={{ marginLeft: '3.6em', width: '100%' }}>
             <tbody>
-              <FormRow
-                defaultValue={payloadType}
-                description='Data stored in a single record.'
-                label='Data'
-                options={useMemo(() => ['String(1000)', 'Uint8Array(1000)'], [])}
-                set={setPayloadType}
-                type='radio'
-              />
+              <PayloadBuilder payload={payload} set={setPayload} />
               <FormRow
                 defaultValue={total.toString()}
                 description='Total number of records to insert.'
@@ -250,20 +684,135 @@ function App() {
                 label='Iterations'
                 set={useCallback((value: string) => setIterations(parseInt(value, 10)), [])}
               />
+              <FormRow
+                defaultValue={concurrency.toString()}
+                description='Number of in-flight operations in the concurrent tests.'
+                label='Concurrency'
+                set={useCallback((value: string) => setConcurrency(Math.max(1, parseInt(value, 10))), [])}
+              />
+              <FormRow
+                defaultValue={warmupIterations.toString()}
+                description='Number of unmeasured iterations to run before measurement.'
+                label='Warmup'
+                set={useCallback((value: string) => setWarmupIterations(parseInt(value, 10)), [])}
+              />
+              <FormRow
+                defaultValue={outliers}
+                description='Drops outlier iterations before calculating statistics. IQR: outside 1.5 × interquartile range. MAD: more than 3.5 median absolute deviations from the median.'
+                label='Outliers'
+                options={useMemo(() => ['none', 'iqr', 'mad'], [])}
+                set={useCallback(value => setOutliers(value as OutlierFilter), [])}
+                type='radio'
+              />
+              <FormRow
+                defaultValue={verify ? 'on' : 'off'}
+                description='Checks that get, bulkGet, getAll, and getAllByIndex return the prefilled data before each case is measured. Mismatches are flagged in the results.'
+                label='Verify'
+                options={useMemo(() => ['off', 'on'], [])}
+                set={useCallback(value => setVerify(value === 'on'), [])}
+                type='radio'
+              />
+              <FormRow
+                defaultValue={iterationTimeout.toString()}
+                description='Fails a case if a single iteration takes longer than this many milliseconds, e.g. when a request is blocked. 0: no limit.'
+                label='Iteration timeout'
+                set={useCallback((value: string) => setIterationTimeout(parseInt(value, 10) || 0), [])}
+              />
+              <FormRow
+                defaultValue={caseTimeout.toString()}
+                description='Fails a case if it takes longer than this many milliseconds in total, excluding cleanup. 0: no limit.'
+                label='Case timeout'
+                set={useCallback((value: string) => setCaseTimeout(parseInt(value, 10) || 0), [])}
+              />
+              <FormRow
+                defaultValue={setupTimeout.toString()}
+                description='Fails a case if its setup or cleanup takes longer than this many milliseconds. 0: no limit.'
+                label='Setup timeout'
+                set={useCallback((value: string) => setSetupTimeout(parseInt(value, 10) || 0), [])}
+              />
+              <FormRow
+                defaultValue={rounds.toString()}
+                description='Runs the whole suite this many times, shuffling the case order each round, and combines the samples of each case. Shows the spread of the round means next to the margin of error.'
+                label='Rounds'
+                set={useCallback((value: string) => setRounds(Math.max(1, parseInt(value, 10) || 1)), [])}
+              />
+              <FormRow
+                defaultValue={orderSeed.toString()}
+                description='Seed of the shuffled case order when running multiple rounds.'
+                label='Order seed'
+                set={useCallback((value: string) => setOrderSeed(parseInt(value, 10) || 0), [])}
+              />
+              <FormRow
+                defaultValue={durability}
+                description='Durability hint of IndexedDB readwrite transactions. all: repeats each write test once per durability.'
+                label='Durability'
+                options={useMemo(() => ['default', 'strict', 'relaxed', 'all'], [])}
+                set={useCallback(value => setDurability(value as Durability | 'all'), [])}
+                type='radio'
+              />
+              <FormRow
+                defaultValue={contentionLoad}
+                description='Runs the main thread cases a second time while helper frames run read or write load against the same IndexedDB database, and compares them.'
+                label='Contention'
+                options={useMemo(() => ['off', 'read', 'write'], [])}
+                set={useCallback(value => setContentionLoad(value as ContentionLoad), [])}
+                type='radio'
+              />
+              <FormRow
+                defaultValue={helpers.toString()}
+                description='Number of contention helper frames.'
+                label='Helpers'
+                set={useCallback((value: string) => setHelpers(Math.max(1, parseInt(value, 10))), [])}
+              />
+              <FormRow
+                defaultValue={executionContext}
+                description='Thread to run the benchmark on. both: runs on the main thread, then in a Web Worker, and compares them.'
+                label='Context'
+                options={useMemo(() => ['main', 'worker', 'both'], [])}
+                set={useCallback(value => setExecutionContext(value as ExecutionContext), [])}
+                type='radio'
+              />
             </tbody>
           </table>
         </div>
       </section>
 
+      <section style={{ margin: '2em' }}>
+        <h2>Scenarios</h2>
+        <ScenarioEditor scenarios={scenarios} set={setScenariosPersisted} />
+      </section>
+
       <section style={{ margin: '2em' }}>
         <h2>Results</h2>
 
+        <p>
+          Tags:{' '}
+          {testTags.map(tag => (
+            <label key={tag} style={{ margin: '0 0.5em' }}>
+              <input
+                type='checkbox'
+                checked={tags.includes(tag)}
+                onChange={() => {
+                  const tagsNew = tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]
+                  setTags(tagsNew)
+                  setLocalSetting('tags', tagsNew)
+                }}
+              />{' '}
+              {tag}
+            </label>
+          ))}
+          <span style={{ color: 'gray', margin: '0 0.5em' }}>Only cases with a checked tag are shown and run.</span>
+        </p>
+
         {settingsLoaded &&
           (Object.keys(dbs) as DatabaseName[]).map(dbname => (
             <Fragment key={dbname}>
               <h3>{dbname}</h3>
               <BenchmarkResultTable
+                baselineResults={baseline?.results}
                 benchmarkResults={benchmarkResults}
+                workerResults={executionContext === 'both' ? workerResults : undefined}
+                contentionResults={contentionLoad !== 'off' ? contentionResults : undefined}
                 dbName={dbname}
                 iterations={iterations}
                 onToggleAll={() => toggleAllSkipped(dbname)}
@@ -275,6 +824,8 @@ function App() {
             </Fragment>
           ))}
 
+        {runError && <p style={{ color: 'tomato' }}>Run failed: {runError}</p>}
+
         <p>
           <button onClick={run} style={{ margin: '0.5em' }}>
             Run benchmark
@@ -286,7 +837,56 @@ function App() {
           >
             {running.current ? 'Cancel' : 'Clear'}
           </button>
+          <button
+            onClick={() => exportResults('json')}
+            disabled={Object.keys(benchmarkResults).length === 0 || running.current}
+            style={{ backgroundColor: '#1a1a1a', margin: '0.5em' }}
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportResults('csv')}
+            disabled={Object.keys(benchmarkResults).length === 0 || running.current}
+            style={{ backgroundColor: '#1a1a1a', margin: '0.5em' }}
+          >
+            Export CSV
+          </button>
         </p>
+
+        <p>
+          <label>
+            Baseline:{' '}
+            <input
+              type='file'
+              accept='application/json,.json'
+              onChange={e => {
+                const file = e.target.files?.[0]
+                if (file) loadBaseline(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+          {baseline && (
+            <>
+              <span style={{ color: 'gray', margin: '0 0.5em' }}>
+                {new Date(baseline.timestamp).toLocaleString()} ({formatPayload(baseline.config.payload)}, total{' '}
+                {baseline.config.total}, limit {baseline.config.limit}, iterations {baseline.config.iterations})
+              </span>
+              <a onClick={() => setBaseline(null)}>clear</a>
+            </>
+          )}
+        </p>
+      </section>
+
+      <section style={{ margin: '2em' }}>
+        <h2>Sweep</h2>
+        {sweepError && <p style={{ color: 'tomato' }}>Sweep failed: {sweepError}</p>}
+        <SweepPanel onCancel={cancelSweep} onRun={runSweep} points={sweepPoints} progress={sweepProgress} />
+      </section>
+
+      <section style={{ margin: '2em' }}>
+        <h2>History</h2>
+        <RunHistory onClear={clearAllHistory} onDelete={deleteHistoryRun} runs={history} />
       </section>
     </div>
   )
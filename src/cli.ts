@@ -0,0 +1,300 @@
+// IndexedDB polyfill must be installed before the adapters are imported
+import 'fake-indexeddb/auto'
+import { readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import dbs, { DatabaseName } from './dbs/index'
+import Benchmark from './lib/Benchmark'
+import formatCaseError from './lib/formatCaseError'
+import getTestKey from './lib/getTestKey'
+import { payloadTypes } from './lib/payload'
+import { parseScenarios } from './lib/scenario'
+import generateTests, { hasTag } from './tests'
+import BenchmarkStats from './types/BenchmarkStats'
+import CaseError from './types/CaseError'
+import { Durability } from './types/Database'
+import OutlierFilter from './types/OutlierFilter'
+import { PayloadContent } from './types/PayloadConfig'
+import PayloadType from './types/PayloadType'
+import TestTag from './types/TestTag'
+
+/** Tags that cases can be filtered by. */
+const testTags: TestTag[] = ['read', 'write', 'bulk', 'index', 'multi-store']
+
+/** Adapters that can run under Node. */
+const nodeDbs: DatabaseName[] = [
+  'memory',
+  'indexedDB',
+  'indexedDB+json',
+  'indexedDB+msgpack',
+  'indexedDB+gzip',
+  'indexedDB+msgpack+gzip',
+]
+
+const usage = `Usage: npm run bench -- [options]
+
+Options:
+  --total <n>       Total number of records to insert (default: 10000)
+  --limit <n>       Number of records to query per iteration (default: 10)
+  --iterations <n>  Number of iterations to measure (default: 100)
+  --warmup <n>      Number of unmeasured warmup iterations (default: 10)
+  --outliers <f>    Outlier filter: none, iqr, mad (default: none)
+  --concurrency <n> Number of in-flight operations in the concurrent tests (default: 8)
+  --durability <d>  Durability of readwrite transactions: default, strict, relaxed, all (default: relaxed)
+  --payload <type>  Payload type: ${payloadTypes.join(', ')} (default: Uint8Array)
+  --size <n>        Payload size in bytes (default: 1000)
+  --content <c>     Payload content: zeros, random, compressible (default: zeros)
+  --fields <n>      Number of fields of an Object, Array, or Map payload (default: 10)
+  --seed <n>        Seed of the random payload generator (default: 1)
+  --db <name>       Adapter to run. May be repeated. (default: all of ${nodeDbs.join(', ')})
+  --scenarios <f>   JSON file of user-defined scenarios to add to the built-in cases
+  --case <pattern>  Only run cases whose key (<db>-<id>) matches the regular expression. May be repeated.
+  --tag <tag>       Only run cases with the tag: ${testTags.join(', ')}. May be repeated.
+  --iteration-timeout <ms> Fail a case if a single iteration takes longer, 0 for no limit (default: 10000)
+  --case-timeout <ms>      Fail a case if it takes longer in total, 0 for no limit (default: 300000)
+  --setup-timeout <ms>     Fail a case if its setup or teardown takes longer, 0 for no limit (default: 60000)
+  --rounds <n>      Run the whole suite n times in a shuffled order and combine the samples (default: 1)
+  --order-seed <n>  Seed of the shuffled case order (default: 1)
+  --verify          Check that read cases return the prefilled data before they are measured
+  --json            Print results as JSON instead of a table
+  -h, --help        Show this help
+`
+
+/** Parses a positive integer flag, exiting with an error if it is invalid. */
+const parseIntFlag = (name: string, value: string): number => {
+  const n = parseInt(value, 10)
+  if (isNaN(n) || n < 0) {
+    console.error(`Invalid --${name}: ${value}`)
+    process.exit(1)
+  }
+  return n
+}
+
+/** Formats milliseconds with a fixed number of decimals. */
+const formatMs = (ms: number | undefined) => (ms != null ? ms.toFixed(3) : '')
+
+/** Formats rows of cells as a left-aligned text table. */
+const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)))
+  return rows.map(row => row.map((cell, col) => cell.padEnd(widths[col])).join('  ')).join('\n')
+}
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      total: { type: 'string', default: '10000' },
+      limit: { type: 'string', default: '10' },
+      iterations: { type: 'string', default: '100' },
+      warmup: { type: 'string', default: '10' },
+      outliers: { type: 'string', default: 'none' },
+      concurrency: { type: 'string', default: '8' },
+      durability: { type: 'string', default: 'relaxed' },
+      payload: { type: 'string', default: 'Uint8Array' },
+      size: { type: 'string', default: '1000' },
+      content: { type: 'string', default: 'zeros' },
+      fields: { type: 'string', default: '10' },
+      seed: { type: 'string', default: '1' },
+      db: { type: 'string', multiple: true },
+      scenarios: { type: 'string' },
+      case: { type: 'string', multiple: true },
+      tag: { type: 'string', multiple: true },
+      'iteration-timeout': { type: 'string', default: '10000' },
+      'case-timeout': { type: 'string', default: '300000' },
+      'setup-timeout': { type: 'string', default: '60000' },
+      rounds: { type: 'string', default: '1' },
+      'order-seed': { type: 'string', default: '1' },
+      verify: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return
+  }
+
+  const total = parseIntFlag('total', values.total!)
+  const limit = parseIntFlag('limit', values.limit!)
+  const iterations = parseIntFlag('iterations', values.iterations!)
+  const warmupIterations = parseIntFlag('warmup', values.warmup!)
+  const outliers = values.outliers as OutlierFilter
+  const iterationTimeout = parseIntFlag('iteration-timeout', values['iteration-timeout']!)
+  const caseTimeout = parseIntFlag('case-timeout', values['case-timeout']!)
+  const setupTimeout = parseIntFlag('setup-timeout', values['setup-timeout']!)
+  const rounds = Math.max(1, parseIntFlag('rounds', values.rounds!))
+  const orderSeed = parseIntFlag('order-seed', values['order-seed']!)
+  const concurrency = Math.max(1, parseIntFlag('concurrency', values.concurrency!))
+  const durability = values.durability as Durability | 'all'
+  const payload = {
+    type: values.payload as PayloadType,
+    size: parseIntFlag('size', values.size!),
+    content: values.content as PayloadContent,
+    fields: parseIntFlag('fields', values.fields!),
+    seed: parseIntFlag('seed', values.seed!),
+  }
+  const dbnames = (values.db ?? nodeDbs) as DatabaseName[]
+  const scenarios = values.scenarios ? parseScenarios(readFileSync(values.scenarios, 'utf8')) : []
+  const casePatterns = (values.case ?? []).map(pattern => new RegExp(pattern))
+  const tags = (values.tag ?? []) as TestTag[]
+
+  if (!['none', 'iqr', 'mad'].includes(outliers)) {
+    console.error(`Invalid --outliers: ${outliers}`)
+    process.exit(1)
+  }
+  if (!payloadTypes.includes(payload.type)) {
+    console.error(`Invalid --payload: ${payload.type}`)
+    process.exit(1)
+  }
+  if (!['zeros', 'random', 'compressible'].includes(payload.content)) {
+    console.error(`Invalid --content: ${payload.content}`)
+    process.exit(1)
+  }
+  if (!['default', 'strict', 'relaxed', 'all'].includes(durability)) {
+    console.error(`Invalid --durability: ${durability}`)
+    process.exit(1)
+  }
+  const unknownTags = tags.filter(tag => !testTags.includes(tag))
+  if (unknownTags.length > 0) {
+    console.error(`Invalid --tag: ${unknownTags.join(', ')}`)
+    process.exit(1)
+  }
+  const unsupported = dbnames.filter(dbname => !nodeDbs.includes(dbname))
+  if (unsupported.length > 0) {
+    console.error(`Unsupported --db under Node: ${unsupported.join(', ')}. Supported: ${nodeDbs.join(', ')}`)
+    process.exit(1)
+  }
+
+  const results: { [key: string]: BenchmarkStats } = {}
+  // keys of the verified cases, and descriptions of the wrong data returned by cases that failed verification
+  const verifiedCases = new Set<string>()
+  const mismatches: { [key: string]: string } = {}
+  const errors: { [key: string]: CaseError } = {}
+  // keys of the selected cases that the adapter does not support
+  const unsupportedCases: string[] = []
+
+  /** Clears all databases that are being benchmarked. */
+  const clearDbs = async () => {
+    for (const dbname of dbnames) {
+      await dbs[dbname].clear()
+    }
+  }
+
+  const benchmark = Benchmark({
+    iterations,
+    warmupIterations,
+    verify: values.verify,
+    iterationTimeout,
+    caseTimeout,
+    setupTimeout,
+    rounds,
+    orderSeed,
+    failed: (testKey, error) => {
+      errors[testKey] = error
+      console.error(`${testKey}: ${formatCaseError(error)}`)
+    },
+    verified: (testKey, mismatch) => {
+      verifiedCases.add(testKey)
+      if (mismatch) {
+        mismatches[testKey] = mismatch
+        console.error(`${testKey}: wrong data: ${mismatch}`)
+      }
+    },
+    outliers,
+    cycle: (testKey, stats) => {
+      results[testKey] = stats
+      if (!values.json) {
+        console.error(`${testKey}: ${formatMs(stats.mean)} ms`)
+      }
+    },
+    preMeasureIterations: total,
+    beforeAll: clearDbs,
+    afterAll: clearDbs,
+  })
+
+  const tests = generateTests({ concurrency, durability, payload, iterations, limit, scenarios, total })
+  for (const dbname of dbnames) {
+    tests[dbname].forEach(test => {
+      const testKey = getTestKey(dbname, test)
+      if (casePatterns.length > 0 && !casePatterns.some(pattern => pattern.test(testKey))) return
+      if (!hasTag(test, tags)) return
+      if (test.unsupported) {
+        unsupportedCases.push(testKey)
+      } else {
+        benchmark.add(testKey, test.spec)
+      }
+    })
+  }
+
+  await benchmark.run()
+
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        {
+          config: {
+            payload,
+            total,
+            limit,
+            iterations,
+            warmupIterations,
+            outliers,
+            durability,
+            concurrency,
+            iterationTimeout,
+            caseTimeout,
+            setupTimeout,
+            rounds,
+            orderSeed,
+          },
+          results,
+          ...(values.verify ? { mismatches } : null),
+          errors,
+          unsupported: unsupportedCases,
+        },
+        null,
+        2,
+      ),
+    )
+    return
+  }
+
+  const header = [
+    'case',
+    'mean',
+    'median',
+    'p95',
+    'p99',
+    'min',
+    'max',
+    '±rme',
+    'ops/sec',
+    ...(rounds > 1 ? ['±rounds'] : []),
+    ...(values.verify ? ['verified'] : []),
+  ]
+  const rows = Object.entries(results).map(([testKey, stats]) => [
+    testKey,
+    formatMs(stats.mean),
+    formatMs(stats.median),
+    formatMs(stats.p95),
+    formatMs(stats.p99),
+    formatMs(stats.min),
+    formatMs(stats.max),
+    `${stats.rme.toFixed(1)}%`,
+    stats.throughput != null ? stats.throughput.toFixed(0) : '',
+    ...(rounds > 1
+      ? [stats.roundDeviation != null ? `${((stats.roundDeviation / stats.mean) * 100).toFixed(1)}%` : '']
+      : []),
+    ...(values.verify ? [mismatches[testKey] ? 'WRONG' : verifiedCases.has(testKey) ? 'ok' : ''] : []),
+  ])
+  const unsupportedRows = unsupportedCases.map(testKey => [testKey, 'unsupported', ...header.slice(2).map(() => '')])
+  const errorRows = Object.keys(errors).map(testKey => [testKey, 'error', ...header.slice(2).map(() => '')])
+  console.log(formatTable([header, ...rows, ...errorRows, ...unsupportedRows]))
+  if (Object.keys(errors).length > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
@@ -1,6 +1,9 @@
-import { useMemo } from 'react'
+import { CSSProperties, ReactNode, useMemo, useState } from 'react'
 import BenchmarkResult from '../types/BenchmarkResult'
+import CaseError from '../types/CaseError'
 import { getScale } from 'color2k'
+import formatCaseError from '../lib/formatCaseError'
+import IterationCharts from './IterationCharts'
 
 /** Formats a number with commas in the thousands place. */
 const numberWithCommas = (n: number | string, decimals = 3) => {
@@ -26,77 +29,288 @@ const colorScale = getScale('lightgreen', 'goldenrod', 'tomato')
 /** Generates a color from red to yellow to green for a number 1–100,000. */
 const rateColor = (ms: number) => colorScale(ms / 7)
 
+/** Generates a color for a relative change from a baseline: green if faster, goldenrod if unchanged, red if slower. Saturates at ±100%. */
+const deltaColor = (change: number) => colorScale(Math.min(Math.max(0.5 + change / 2, 0), 1))
+
+/** Formats a relative change as a signed percentage. */
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`
+
+/** Calculates the relative change of a mean from a reference mean, or null if either is missing. */
+const relativeChange = (mean?: number, reference?: number) =>
+  mean != null && reference ? (mean - reference) / reference : null
+
+/** Renders a mean and its relative change from another result. A negative change is faster. Renders the error instead if the compared case threw, or unsupported if it was not run. */
+const ComparisonCells = ({
+  change,
+  description,
+  error,
+  mean,
+  mismatch,
+  note,
+  style,
+  unsupported,
+}: {
+  change: number | null
+  /** Describes what the change is relative to, e.g. 'baseline'. */
+  description: string
+  /** Set if the compared case threw. */
+  error?: CaseError
+  mean?: number
+  /** Description of the wrong data returned by the compared case, if verification failed. */
+  mismatch?: string
+  /** Shown below the mean. */
+  note?: ReactNode
+  style?: CSSProperties
+  /** Reason the compared case was not run, e.g. the adapter is not available in a worker. */
+  unsupported?: string
+}) =>
+  unsupported ? (
+    <td colSpan={2} title={unsupported} style={{ color: 'gray', textAlign: 'left', ...style }}>
+      unsupported
+    </td>
+  ) : error ? (
+    <td colSpan={2} style={{ color: 'tomato', textAlign: 'left', ...style }}>
+      {formatCaseError(error)}
+    </td>
+  ) : (
+    <>
+      <td
+        title={mismatch ? `Wrong data: ${mismatch}` : undefined}
+        style={{
+          color: 'gray',
+          minWidth: '3.5em',
+          ...(mismatch ? { color: 'tomato', textDecoration: 'line-through' } : null),
+          ...style,
+        }}
+      >
+        {mismatch ? '✗ ' : null}
+        {mean != null ? formatMilliseconds(mean) : ''}
+        {note != null ? <div style={{ fontSize: '0.8em' }}>{note}</div> : null}
+      </td>
+      <td
+        title={change != null ? `${change < 0 ? 'faster' : 'slower'} than ${description}` : undefined}
+        style={{
+          color: change != null ? deltaColor(change) : undefined,
+          minWidth: '4em',
+          ...style,
+        }}
+      >
+        {change != null ? formatChange(change) : ''}
+      </td>
+    </>
+  )
+
 /** A row of benchmark results for a single case within the results table. */
 function BenchmarkResultRow({
+  baseline,
+  contention,
   prefill,
   measure,
   result,
   skip,
+  unsupported,
+  worker,
   onToggleSkip,
 }: {
+  /** Result of the same case from a previously saved run. Renders the baseline columns if defined, even if empty. */
+  baseline?: BenchmarkResult
+  /** Result of the same case run while contention helpers ran load against the database. Renders the contention columns if defined, even if empty. */
+  contention?: BenchmarkResult
   prefill?: string
   measure: string
   result: BenchmarkResult
   skip?: boolean
+  /** The adapter does not support the case, so it is not run. */
+  unsupported?: boolean
+  /** Result of the same case run in a Web Worker. Renders the worker columns if defined, even if empty. */
+  worker?: BenchmarkResult
   onToggleSkip: () => void
 }) {
   const skipStyle = useMemo(() => (skip ? { opacity: 0.2 } : undefined), [skip])
+  const [expanded, setExpanded] = useState<boolean>(false)
 
   return (
-    <tr>
-      <td style={{ textAlign: 'left' }}>
-        <input type='checkbox' onChange={onToggleSkip} checked={!skip} />
-      </td>
-      <td style={{ textAlign: 'left', ...skipStyle }}>
-        <a onClick={onToggleSkip} style={{ color: 'inherit' }}>
-          {prefill}
-        </a>
-      </td>
-      <td style={{ textAlign: 'left', ...skipStyle }}>
-        <a onClick={onToggleSkip} style={{ color: 'inherit' }}>
-          {measure}
-        </a>
-      </td>
-      <td
-        style={{
-          minWidth: '2.5em',
-          paddingRight: '0.5em',
-          color:
-            result?.progress === 1
-              ? 'gray'
-              : result?.beforeProgress && result.beforeProgress < 1
-              ? 'goldenrod'
-              : undefined,
-          ...skipStyle,
-        }}
-      >
-        {result?.progress != null
-          ? formatPercentage(result.progress)
-          : result?.beforeProgress
-          ? formatPercentage(result.beforeProgress)
-          : ''}
-      </td>
-      <td style={{ minWidth: '3.5em', ...skipStyle }}>{result?.mean != null ? formatMilliseconds(result.mean) : ''}</td>
-      <td
-        title={
-          result?.mean && result.mean <= 1
-            ? '> 1,000/sec'
-            : result?.mean && result.mean > 40
-            ? '< 25/sec'
-            : result?.mean
-            ? '25–1,000/sec'
-            : 'very fast'
-        }
-        style={{
-          color: result?.mean ? rateColor(result.mean) : undefined,
-          minWidth: '4.5em',
-          textAlign: 'left',
-          ...skipStyle,
-        }}
-      >
-        {result?.mean != null ? formatRate(result?.mean) : ''}
-      </td>
-    </tr>
+    <>
+      <tr>
+        <td style={{ textAlign: 'left' }}>
+          <input type='checkbox' onChange={onToggleSkip} checked={!skip && !unsupported} disabled={unsupported} />
+        </td>
+        <td style={{ textAlign: 'left', ...skipStyle }}>
+          <a onClick={onToggleSkip} style={{ color: 'inherit' }}>
+            {prefill}
+          </a>
+        </td>
+        <td style={{ textAlign: 'left', ...skipStyle }}>
+          <a onClick={onToggleSkip} style={{ color: 'inherit' }}>
+            {measure}
+          </a>
+        </td>
+        {unsupported || result?.unsupported ? (
+          <td
+            colSpan={100}
+            title={
+              unsupported
+                ? 'The adapter does not implement a method this case requires.'
+                : 'The adapter is not available in a worker.'
+            }
+            style={{ color: 'gray', textAlign: 'left' }}
+          >
+            unsupported
+          </td>
+        ) : result?.error ? (
+          <td colSpan={100} style={{ color: 'tomato', textAlign: 'left', ...skipStyle }}>
+            {formatCaseError(result.error)}
+          </td>
+        ) : (
+          <>
+            <td
+              style={{
+                minWidth: '2.5em',
+                paddingRight: '0.5em',
+                color:
+                  result?.progress === 1
+                    ? 'gray'
+                    : result?.beforeProgress && result.beforeProgress < 1
+                    ? 'goldenrod'
+                    : undefined,
+                ...skipStyle,
+              }}
+            >
+              {result?.progress != null
+                ? formatPercentage(result.progress)
+                : result?.beforeProgress
+                ? formatPercentage(result.beforeProgress)
+                : ''}
+            </td>
+            <td
+              title={result?.mismatch ? `Wrong data: ${result.mismatch}` : undefined}
+              style={{
+                minWidth: '3.5em',
+                ...(result?.mismatch ? { color: 'tomato', textDecoration: 'line-through' } : null),
+                ...skipStyle,
+              }}
+            >
+              {result?.mismatch ? '✗ ' : result?.verified ? <span style={{ color: 'gray' }}>✓ </span> : null}
+              {result?.timeline ? (
+                <a onClick={() => setExpanded(!expanded)} style={{ color: 'inherit' }} title='Show iteration charts'>
+                  {expanded ? '▾' : '▸'} {formatMilliseconds(result.mean!)}
+                </a>
+              ) : result?.mean != null ? (
+                formatMilliseconds(result.mean)
+              ) : (
+                ''
+              )}
+            </td>
+            <td
+              title={
+                result?.mean && result.mean <= 1
+                  ? '> 1,000/sec'
+                  : result?.mean && result.mean > 40
+                  ? '< 25/sec'
+                  : result?.mean
+                  ? '25–1,000/sec'
+                  : 'very fast'
+              }
+              style={{
+                color: result?.mean ? rateColor(result.mean) : undefined,
+                minWidth: '4.5em',
+                textAlign: 'left',
+                ...skipStyle,
+              }}
+            >
+              {result?.mean != null ? formatRate(result?.mean) : ''}
+            </td>
+            <td
+              title={
+                result?.ci
+                  ? `σ ${formatMilliseconds(result.deviation!)}, 95% CI ${formatMilliseconds(
+                      result.ci[0],
+                    )} – ${formatMilliseconds(result.ci[1])}${
+                      result.rejected ? `, ${result.rejected} outlier${result.rejected === 1 ? '' : 's'} dropped` : ''
+                    }${
+                      result.roundMeans
+                        ? `, round means ${result.roundMeans.map(mean => formatMilliseconds(mean)).join(', ')}`
+                        : ''
+                    }`
+                  : undefined
+              }
+              style={{ color: 'gray', minWidth: '3.5em', ...skipStyle }}
+            >
+              {result?.rme != null ? `±${result.rme.toFixed(1)}%` : ''}
+              {result?.roundDeviation != null && result.mean ? (
+                <div style={{ fontSize: '0.8em' }}>
+                  {result.rounds} rounds ±{((result.roundDeviation / result.mean) * 100).toFixed(1)}%
+                </div>
+              ) : null}
+            </td>
+            <td style={{ minWidth: '3.5em', ...skipStyle }}>
+              {result?.median != null ? formatMilliseconds(result.median) : ''}
+            </td>
+            <td style={{ minWidth: '3.5em', ...skipStyle }}>
+              {result?.p90 != null ? formatMilliseconds(result.p90) : ''}
+            </td>
+            <td style={{ minWidth: '3.5em', ...skipStyle }}>
+              {result?.p95 != null ? formatMilliseconds(result.p95) : ''}
+            </td>
+            <td style={{ minWidth: '3.5em', ...skipStyle }}>
+              {result?.p99 != null ? formatMilliseconds(result.p99) : ''}
+            </td>
+            <td style={{ color: 'gray', minWidth: '7em', ...skipStyle }}>
+              {result?.min != null && result?.max != null
+                ? `${formatMilliseconds(result.min)} – ${formatMilliseconds(result.max)}`
+                : ''}
+            </td>
+            <td
+              title={result?.concurrency ? `${result.concurrency} operations in flight` : undefined}
+              style={{ minWidth: '5em', ...skipStyle }}
+            >
+              {result?.throughput != null ? `${numberWithCommas(result.throughput.toFixed(0))}/sec` : ''}
+            </td>
+            {worker && (
+              <ComparisonCells
+                change={relativeChange(worker.mean, result?.mean)}
+                description='main thread'
+                error={worker.error}
+                mean={worker.mean}
+                mismatch={worker.mismatch}
+                style={skipStyle}
+                unsupported={worker.unsupported ? 'The adapter is not available in a worker.' : undefined}
+              />
+            )}
+            {contention && (
+              <ComparisonCells
+                change={relativeChange(contention.mean, result?.mean)}
+                description='running alone'
+                error={contention.error}
+                mean={contention.mean}
+                mismatch={contention.mismatch}
+                note={
+                  contention.contention
+                    ? `${contention.contention.blocked} blocked, ${contention.contention.versionchange} versionchange, ${contention.contention.ops} helper ops, ${contention.contention.errors} helper errors`
+                    : undefined
+                }
+                style={skipStyle}
+              />
+            )}
+            {baseline && (
+              <ComparisonCells
+                change={relativeChange(result?.mean, baseline.mean)}
+                description='baseline'
+                mean={baseline.mean}
+                style={skipStyle}
+              />
+            )}
+          </>
+        )}
+      </tr>
+      {expanded && result?.timeline && (
+        <tr>
+          <td colSpan={100}>
+            <IterationCharts timeline={result.timeline} />
+          </td>
+        </tr>
+      )}
+    </>
   )
 }
 
@@ -1,9 +1,12 @@
 import BenchmarkResult from '../types/BenchmarkResult'
+import getTestKey from '../lib/getTestKey'
 import BenchmarkResultRow from './BenchmarkResultRow'
 import { DatabaseName } from '../dbs'
 
 const BenchmarkResultTable = ({
+  baselineResults,
   benchmarkResults,
+  contentionResults,
   dbName,
   iterations,
   onToggleAll,
@@ -11,15 +14,19 @@ const BenchmarkResultTable = ({
   total,
   skipped,
   tests,
+  workerResults,
 }: {
+  baselineResults?: { [key: string]: BenchmarkResult }
   benchmarkResults: { [key: string]: BenchmarkResult }
+  contentionResults?: { [key: string]: BenchmarkResult }
   dbName: DatabaseName
   iterations: number
   onToggleAll: () => void
   onToggleSkip: (key: string) => void
   total: number
   skipped: { [key: string]: boolean }
-  tests: { prefill: string; measure: string }[]
+  tests: { id: string; prefill: string; measure: string; unsupported?: boolean }[]
+  workerResults?: { [key: string]: BenchmarkResult }
 }) => (
   <table>
     <thead>
@@ -31,18 +38,48 @@ const BenchmarkResultTable = ({
         <td style={{ textAlign: 'left' }}>Measure ({iterations})</td>
         <td></td>
         <td>Result</td>
+        <td></td>
+        <td></td>
+        <td>Median</td>
+        <td>p90</td>
+        <td>p95</td>
+        <td>p99</td>
+        <td>Min – Max</td>
+        <td>Throughput</td>
+        {workerResults && (
+          <>
+            <td>Worker</td>
+            <td>Δ</td>
+          </>
+        )}
+        {contentionResults && (
+          <>
+            <td>Contended</td>
+            <td>Δ</td>
+          </>
+        )}
+        {baselineResults && (
+          <>
+            <td>Baseline</td>
+            <td>Δ</td>
+          </>
+        )}
       </tr>
     </thead>
     <tbody>
       {tests.map(test => {
-        const testKey = `${dbName}-${test.prefill}-${test.measure}`
+        const testKey = getTestKey(dbName, test)
         return (
           <BenchmarkResultRow
             key={testKey}
+            baseline={baselineResults && (baselineResults[testKey] || {})}
+            worker={workerResults && (workerResults[testKey] || {})}
+            contention={contentionResults && (contentionResults[testKey] || {})}
             prefill={test.prefill}
             measure={test.measure}
             result={benchmarkResults[testKey]}
             skip={skipped[testKey]}
+            unsupported={test.unsupported}
             onToggleSkip={() => onToggleSkip(testKey)}
           />
         )
@@ -1,5 +1,4 @@
 import { useState, memo } from 'react'
-import PayloadType from '../types/PayloadType'
 
 const FormRow = memo(function FormRow({
   defaultValue,
@@ -12,8 +11,8 @@ const FormRow = memo(function FormRow({
   defaultValue?: string
   description: string
   label: string
-  options?: PayloadType[]
-  set: (value: PayloadType) => void
+  options?: string[]
+  set: (value: string) => void
   type?: 'number' | 'radio'
 }) {
   const [selected, setSelected] = useState<string | undefined>(defaultValue ?? options?.[0])
@@ -0,0 +1,75 @@
+import { memo } from 'react'
+import RunExport from '../types/RunExport'
+
+const width = 640
+const height = 200
+const padding = { top: 10, right: 10, bottom: 24, left: 56 }
+
+/** Formats a date as a short label for the x axis. */
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString()
+
+/** Charts the mean of a single case in each saved run over time. Runs that did not include the case are left out. */
+const HistoryChart = memo(function HistoryChart({ runs, testKey }: { runs: RunExport[]; testKey: string }) {
+  const points = runs
+    .filter(run => run.results[testKey]?.mean != null)
+    .map(run => ({ run, mean: run.results[testKey].mean!, time: new Date(run.timestamp).getTime() }))
+
+  if (points.length === 0) {
+    return <p style={{ color: 'gray' }}>No saved runs include this case.</p>
+  }
+
+  const minTime = points[0].time
+  const maxTime = points[points.length - 1].time
+  const maxMean = Math.max(...points.map(point => point.mean))
+
+  /** Scales a timestamp to an x coordinate. A single run is drawn in the middle. */
+  const x = (time: number) =>
+    maxTime === minTime
+      ? (padding.left + width - padding.right) / 2
+      : padding.left + ((time - minTime) / (maxTime - minTime)) * (width - padding.left - padding.right)
+
+  /** Scales a mean to a y coordinate, with 0 ms at the bottom. */
+  const y = (mean: number) =>
+    height - padding.bottom - (maxMean ? (mean / maxMean) * (height - padding.top - padding.bottom) : 0)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ maxWidth: width, width: '100%' }}>
+      <line x1={padding.left} x2={padding.left} y1={padding.top} y2={height - padding.bottom} stroke='gray' />
+      <line
+        x1={padding.left}
+        x2={width - padding.right}
+        y1={height - padding.bottom}
+        y2={height - padding.bottom}
+        stroke='gray'
+      />
+      <text x={padding.left - 6} y={padding.top + 4} fill='gray' fontSize={12} textAnchor='end'>
+        {maxMean.toFixed(3)} ms
+      </text>
+      <text x={padding.left - 6} y={height - padding.bottom} fill='gray' fontSize={12} textAnchor='end'>
+        0 ms
+      </text>
+      <text x={padding.left} y={height - 6} fill='gray' fontSize={12}>
+        {formatDate(points[0].run.timestamp)}
+      </text>
+      <text x={width - padding.right} y={height - 6} fill='gray' fontSize={12} textAnchor='end'>
+        {formatDate(points[points.length - 1].run.timestamp)}
+      </text>
+      <polyline
+        fill='none'
+        points={points.map(point => `${x(point.time)},${y(point.mean)}`).join(' ')}
+        stroke='#646cff'
+        strokeWidth={2}
+      />
+      {points.map(point => (
+        <circle key={point.run.timestamp} cx={x(point.time)} cy={y(point.mean)} r={4} fill='#646cff'>
+          <title>
+            {new Date(point.run.timestamp).toLocaleString()}: {point.mean.toFixed(3)} ms{'\n'}
+            {point.run.environment.userAgent}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+})
+
+export default HistoryChart
@@ -0,0 +1,119 @@
+import { memo } from 'react'
+
+const width = 480
+const height = 160
+const padding = { top: 10, right: 10, bottom: 24, left: 56 }
+const plotWidth = width - padding.left - padding.right
+const plotHeight = height - padding.top - padding.bottom
+
+/** Number of histogram bins. */
+const BINS = 20
+
+/** Formats milliseconds for axis labels. */
+const formatMs = (ms: number) => `${ms.toFixed(3)} ms`
+
+/** Draws the axes of a chart with labels at the ends of each axis. */
+const Axes = ({ xMin, xMax, yMax }: { xMin: string; xMax: string; yMax: string }) => (
+  <>
+    <line x1={padding.left} x2={padding.left} y1={padding.top} y2={height - padding.bottom} stroke='gray' />
+    <line
+      x1={padding.left}
+      x2={width - padding.right}
+      y1={height - padding.bottom}
+      y2={height - padding.bottom}
+      stroke='gray'
+    />
+    <text x={padding.left - 6} y={padding.top + 4} fill='gray' fontSize={12} textAnchor='end'>
+      {yMax}
+    </text>
+    <text x={padding.left - 6} y={height - padding.bottom} fill='gray' fontSize={12} textAnchor='end'>
+      0
+    </text>
+    <text x={padding.left} y={height - 6} fill='gray' fontSize={12}>
+      {xMin}
+    </text>
+    <text x={width - padding.right} y={height - 6} fill='gray' fontSize={12} textAnchor='end'>
+      {xMax}
+    </text>
+  </>
+)
+
+/** Histogram of iteration times. */
+const Histogram = ({ samples }: { samples: number[] }) => {
+  const min = Math.min(...samples)
+  const max = Math.max(...samples)
+  const binWidth = (max - min) / BINS || 1
+  const counts = Array(BINS).fill(0)
+  samples.forEach(ms => {
+    counts[Math.min(Math.floor((ms - min) / binWidth), BINS - 1)]++
+  })
+  const maxCount = Math.max(...counts)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ maxWidth: width, width: '100%' }}>
+      <Axes xMin={formatMs(min)} xMax={formatMs(max)} yMax={maxCount.toString()} />
+      {counts.map((count, i) => {
+        const barHeight = (count / maxCount) * plotHeight
+        return (
+          <rect
+            key={i}
+            x={padding.left + (i * plotWidth) / BINS + 1}
+            y={height - padding.bottom - barHeight}
+            width={plotWidth / BINS - 2}
+            height={barHeight}
+            fill='#646cff'
+          >
+            <title>
+              {formatMs(min + i * binWidth)} – {formatMs(min + (i + 1) * binWidth)}: {count}
+            </title>
+          </rect>
+        )
+      })}
+    </svg>
+  )
+}
+
+/** Iteration time by iteration index. Missing iterations, e.g. from a cancelled run, are skipped. */
+const Timeline = ({ timeline }: { timeline: number[] }) => {
+  const max = Math.max(...timeline.filter(ms => ms != null))
+  const x = (i: number) =>
+    padding.left + (timeline.length > 1 ? (i / (timeline.length - 1)) * plotWidth : plotWidth / 2)
+  const y = (ms: number) => height - padding.bottom - (max ? (ms / max) * plotHeight : 0)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ maxWidth: width, width: '100%' }}>
+      <Axes xMin='0' xMax={(timeline.length - 1).toString()} yMax={formatMs(max)} />
+      <polyline
+        fill='none'
+        points={timeline
+          .map((ms, i) => (ms != null ? `${x(i)},${y(ms)}` : null))
+          .filter(point => point)
+          .join(' ')}
+        stroke='#646cff'
+        strokeWidth={1}
+      />
+    </svg>
+  )
+}
+
+/** Charts the iteration times of a single case: a histogram of latencies and a timeline by iteration index. */
+const IterationCharts = memo(function IterationCharts({ timeline }: { timeline: number[] }) {
+  const samples = timeline.filter(ms => ms != null)
+  if (samples.length === 0) {
+    return <p style={{ color: 'gray' }}>No iterations recorded.</p>
+  }
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1em', justifyContent: 'center' }}>
+      <div>
+        <div style={{ color: 'gray' }}>Latency histogram</div>
+        <Histogram samples={samples} />
+      </div>
+      <div>
+        <div style={{ color: 'gray' }}>Timeline</div>
+        <Timeline timeline={timeline} />
+      </div>
+    </div>
+  )
+})
+
+export default IterationCharts
@@ -0,0 +1,133 @@
+import { memo } from 'react'
+import { formatPayload, payloadTypes } from '../lib/payload'
+import PayloadConfig, { PayloadContent } from '../types/PayloadConfig'
+import PayloadType from '../types/PayloadType'
+
+const payloadContents: PayloadContent[] = ['zeros', 'random', 'compressible']
+
+/** Preset sizes in bytes, from tiny records to multi-megabyte blobs. */
+const sizePresets = [10, 100, 1000, 10000, 100000, 1000000, 5000000]
+
+const inputStyle = {
+  padding: '0.25em 0.5em',
+  marginRight: '0.5em',
+}
+
+/** Formats a number of bytes with a decimal unit for the size presets. */
+const formatBytes = (bytes: number) =>
+  bytes >= 1000000 ? `${bytes / 1000000} MB` : bytes >= 1000 ? `${bytes / 1000} KB` : `${bytes} B`
+
+/** Config rows for building the payload stored in each record. Rendered inside the config table like FormRow. */
+const PayloadBuilder = memo(function PayloadBuilder({
+  payload,
+  set,
+}: {
+  payload: PayloadConfig
+  set: (payload: PayloadConfig) => void
+}) {
+  /** Sets a single property of the payload config. */
+  const setProp = <K extends keyof PayloadConfig>(key: K, value: PayloadConfig[K]) => set({ ...payload, [key]: value })
+
+  /** Parses a non-negative integer input and sets it, ignoring invalid input. */
+  const setInt = (key: 'size' | 'fields' | 'seed', value: string) => {
+    const n = parseInt(value, 10)
+    if (isNaN(n) || n < 0) return
+    setProp(key, n)
+  }
+
+  const hasFields = payload.type === 'Object' || payload.type === 'Array' || payload.type === 'Map'
+
+  return (
+    <>
+      <tr>
+        <td style={{ width: '25%', maxWidth: '12em', verticalAlign: 'top' }}>
+          <span style={{ minWidth: '6em', display: 'inline-block', marginRight: '0.5em', textAlign: 'right' }}>
+            Data:
+          </span>
+        </td>
+        <td style={{ textAlign: 'left' }}>
+          <select
+            value={payload.type}
+            onChange={e => setProp('type', e.target.value as PayloadType)}
+            style={inputStyle}
+          >
+            {payloadTypes.map(type => (
+              <option key={type}>{type}</option>
+            ))}
+          </select>
+          <input
+            type='number'
+            list='payload-size-presets'
+            min={0}
+            onChange={e => setInt('size', e.target.value)}
+            style={{ ...inputStyle, width: '6em', textAlign: 'right' }}
+            title='Size in bytes'
+            value={payload.size}
+          />
+          <datalist id='payload-size-presets'>
+            {sizePresets.map(size => (
+              <option key={size} value={size}>
+                {formatBytes(size)}
+              </option>
+            ))}
+          </datalist>
+          bytes
+          <div style={{ marginTop: '0.5em' }}>
+            {payloadContents.map(content => (
+              <label key={content} style={{ marginRight: '1em' }}>
+                <input
+                  type='radio'
+                  name='payload-content'
+                  checked={payload.content === content}
+                  onChange={() => setProp('content', content)}
+                />{' '}
+                {content}
+              </label>
+            ))}
+          </div>
+          <div style={{ marginTop: '0.5em' }}>
+            {hasFields && (
+              <label style={{ marginRight: '1em' }}>
+                fields{' '}
+                <input
+                  type='number'
+                  min={1}
+                  onChange={e => setInt('fields', e.target.value)}
+                  style={{ ...inputStyle, width: '4em', textAlign: 'right' }}
+                  value={payload.fields}
+                />
+              </label>
+            )}
+            <label>
+              seed{' '}
+              <input
+                type='number'
+                min={0}
+                onChange={e => setInt('seed', e.target.value)}
+                style={{ ...inputStyle, width: '6em', textAlign: 'right' }}
+                value={payload.seed}
+              />
+            </label>
+          </div>
+        </td>
+      </tr>
+      <tr>
+        <td colSpan={2}>
+          <p
+            style={{
+              color: 'gray',
+              margin: '0.5em 1em 1em',
+              maxWidth: '20em',
+              textAlign: 'left',
+            }}
+          >
+            Data stored in a single record: {formatPayload(payload)}. Random content is generated from the seed so runs
+            can be reproduced.
+          </p>
+        </td>
+      </tr>
+    </>
+  )
+})
+
+export default PayloadBuilder
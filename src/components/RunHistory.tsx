@@ -0,0 +1,59 @@
+import { memo, useMemo, useState } from 'react'
+import { formatPayload } from '../lib/payload'
+import RunExport from '../types/RunExport'
+import HistoryChart from './HistoryChart'
+
+/** Lists saved runs and charts the mean of a selected case over time. */
+const RunHistory = memo(function RunHistory({
+  onClear,
+  onDelete,
+  runs,
+}: {
+  onClear: () => void
+  onDelete: (timestamp: string) => void
+  /** Saved runs, oldest first. */
+  runs: RunExport[]
+}) {
+  const testKeys = useMemo(() => [...new Set(runs.flatMap(run => Object.keys(run.results)))].sort(), [runs])
+  const [selected, setSelected] = useState<string>('')
+  const testKey = testKeys.includes(selected) ? selected : testKeys[0]
+
+  if (runs.length === 0) {
+    return <p style={{ color: 'gray' }}>Finished runs are saved here automatically.</p>
+  }
+
+  return (
+    <div>
+      <p>
+        <select value={testKey} onChange={e => setSelected(e.target.value)} style={{ padding: '0.25em 0.5em' }}>
+          {testKeys.map(key => (
+            <option key={key}>{key}</option>
+          ))}
+        </select>
+      </p>
+      {testKey && <HistoryChart runs={runs} testKey={testKey} />}
+      <table style={{ margin: '1em auto' }}>
+        <tbody>
+          {[...runs].reverse().map(run => (
+            <tr key={run.timestamp}>
+              <td style={{ textAlign: 'left', paddingRight: '1em' }}>{new Date(run.timestamp).toLocaleString()}</td>
+              <td style={{ color: 'gray', textAlign: 'left', paddingRight: '1em' }}>
+                {formatPayload(run.config.payload)}, total {run.config.total}, limit {run.config.limit}, iterations{' '}
+                {run.config.iterations}
+              </td>
+              <td style={{ color: 'gray', paddingRight: '1em' }}>{Object.keys(run.results).length} cases</td>
+              <td>
+                <a onClick={() => onDelete(run.timestamp)}>delete</a>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={onClear} style={{ backgroundColor: '#1a1a1a', margin: '0.5em' }}>
+        Clear history
+      </button>
+    </div>
+  )
+})
+
+export default RunHistory
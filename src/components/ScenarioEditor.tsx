@@ -0,0 +1,92 @@
+import { memo, useEffect, useState } from 'react'
+import { download } from '../lib/runExport'
+import { parseScenarios } from '../lib/scenario'
+import Scenario from '../types/Scenario'
+
+/** An example scenario shown when the editor is empty. */
+const exampleScenarios: Scenario[] = [
+  {
+    name: 'get by index (random)',
+    prefill: { records: 1000, stores: 1, indexes: [{ keyPath: 'group', distinct: 100 }] },
+    operation: { method: 'getAllByIndex', keys: 'random' },
+  },
+]
+
+/** Edits, loads, and saves user-defined scenarios as JSON. Scenarios are only applied once they are valid. */
+const ScenarioEditor = memo(function ScenarioEditor({
+  scenarios,
+  set,
+}: {
+  scenarios: Scenario[]
+  set: (scenarios: Scenario[]) => void
+}) {
+  const [text, setText] = useState<string>(() => (scenarios.length > 0 ? JSON.stringify(scenarios, null, 2) : ''))
+  const [error, setError] = useState<string | null>(null)
+
+  // sync the text when scenarios are changed from outside the editor, e.g. loaded from settings
+  useEffect(() => {
+    setText(scenarios.length > 0 ? JSON.stringify(scenarios, null, 2) : '')
+  }, [scenarios])
+
+  /** Parses the text and applies the scenarios, or shows the validation error. */
+  const apply = (json: string) => {
+    try {
+      set(json.trim() ? parseScenarios(json) : [])
+      setError(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  /** Loads scenarios from a JSON file. */
+  const load = async (file: File) => {
+    const json = await file.text()
+    setText(json)
+    apply(json)
+  }
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <textarea
+        onChange={e => setText(e.target.value)}
+        placeholder={JSON.stringify(exampleScenarios, null, 2)}
+        rows={12}
+        spellCheck={false}
+        style={{ boxSizing: 'border-box', fontFamily: 'monospace', width: '100%' }}
+        value={text}
+      />
+      {error && <p style={{ color: 'tomato', margin: '0.5em 0' }}>{error}</p>}
+      <p>
+        <button onClick={() => apply(text)} style={{ margin: '0.5em 0.5em 0.5em 0' }}>
+          Apply
+        </button>
+        <button
+          onClick={() => download('scenarios.json', JSON.stringify(scenarios, null, 2), 'application/json')}
+          disabled={scenarios.length === 0}
+          style={{ backgroundColor: '#1a1a1a', margin: '0.5em' }}
+        >
+          Save
+        </button>
+        <label style={{ margin: '0.5em' }}>
+          Load:{' '}
+          <input
+            type='file'
+            accept='application/json,.json'
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) load(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </p>
+      <p style={{ color: 'gray', margin: '0.5em 0' }}>
+        A JSON list of scenarios. Each scenario describes the prefill (records, stores, indexes), the measured operation
+        (method, key selection, bulk size), and the transaction mode. Applied scenarios are added to every db under the
+        "scenario" prefill.
+      </p>
+    </div>
+  )
+})
+
+export default ScenarioEditor
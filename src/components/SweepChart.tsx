@@ -0,0 +1,103 @@
+import { memo } from 'react'
+import SweepParam from '../types/SweepParam'
+import SweepPoint from '../types/SweepPoint'
+
+const width = 640
+const height = 240
+const padding = { top: 10, right: 10, bottom: 24, left: 56 }
+const plotWidth = width - padding.left - padding.right
+const plotHeight = height - padding.top - padding.bottom
+
+/** Line colors of the adapters, in order. */
+const colors = ['#646cff', 'lightgreen', 'tomato', 'goldenrod', 'orchid', 'turquoise', 'sandybrown', 'silver']
+
+/** Plots the mean of a single case against a swept param, with one line per adapter. Values are spaced evenly so that orders of magnitude are readable. */
+const SweepChart = memo(function SweepChart({
+  param,
+  points,
+  testName,
+}: {
+  param: SweepParam
+  /** Points to plot. All other swept params are expected to be fixed. */
+  points: SweepPoint[]
+  testName: string
+}) {
+  const xValues = [...new Set(points.map(point => point.params[param]))].sort((a, b) => a - b)
+  const dbNames = [...new Set(points.flatMap(point => Object.keys(point.results)))].filter(dbName =>
+    points.some(point => point.results[dbName]?.[testName]),
+  )
+  const lines = dbNames.map(dbName =>
+    xValues.map(value => {
+      const point = points.find(point => point.params[param] === value)
+      return { value, mean: point?.results[dbName]?.[testName]?.mean }
+    }),
+  )
+  const maxMean = Math.max(0, ...lines.flatMap(line => line.map(({ mean }) => mean ?? 0)))
+
+  if (dbNames.length === 0) {
+    return <p style={{ color: 'gray' }}>No results for this case.</p>
+  }
+
+  /** Spaces values evenly along the x axis. */
+  const x = (value: number) =>
+    padding.left + (xValues.length > 1 ? (xValues.indexOf(value) / (xValues.length - 1)) * plotWidth : plotWidth / 2)
+
+  /** Scales a mean to a y coordinate, with 0 ms at the bottom. */
+  const y = (mean: number) => height - padding.bottom - (maxMean ? (mean / maxMean) * plotHeight : 0)
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} style={{ maxWidth: width, width: '100%' }}>
+        <line x1={padding.left} x2={padding.left} y1={padding.top} y2={height - padding.bottom} stroke='gray' />
+        <line
+          x1={padding.left}
+          x2={width - padding.right}
+          y1={height - padding.bottom}
+          y2={height - padding.bottom}
+          stroke='gray'
+        />
+        <text x={padding.left - 6} y={padding.top + 4} fill='gray' fontSize={12} textAnchor='end'>
+          {maxMean.toFixed(3)} ms
+        </text>
+        <text x={padding.left - 6} y={height - padding.bottom} fill='gray' fontSize={12} textAnchor='end'>
+          0 ms
+        </text>
+        {xValues.map(value => (
+          <text key={value} x={x(value)} y={height - 6} fill='gray' fontSize={12} textAnchor='middle'>
+            {value}
+          </text>
+        ))}
+        {lines.map((line, i) => (
+          <g key={dbNames[i]} stroke={colors[i % colors.length]} fill={colors[i % colors.length]}>
+            <polyline
+              fill='none'
+              points={line
+                .filter(({ mean }) => mean != null)
+                .map(({ value, mean }) => `${x(value)},${y(mean!)}`)
+                .join(' ')}
+              strokeWidth={2}
+            />
+            {line
+              .filter(({ mean }) => mean != null)
+              .map(({ value, mean }) => (
+                <circle key={value} cx={x(value)} cy={y(mean!)} r={3}>
+                  <title>
+                    {dbNames[i]}, {param} {value}: {mean!.toFixed(3)} ms
+                  </title>
+                </circle>
+              ))}
+          </g>
+        ))}
+      </svg>
+      <div>
+        {dbNames.map((dbName, i) => (
+          <span key={dbName} style={{ color: colors[i % colors.length], margin: '0 0.5em' }}>
+            ● {dbName}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+})
+
+export default SweepChart
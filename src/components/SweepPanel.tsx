@@ -0,0 +1,140 @@
+import { memo, useMemo, useState } from 'react'
+import { parseSweepValues } from '../lib/sweep'
+import SweepParam from '../types/SweepParam'
+import SweepPoint from '../types/SweepPoint'
+import SweepChart from './SweepChart'
+
+const sweepParams: SweepParam[] = ['total', 'limit', 'size']
+
+const inputStyle = {
+  padding: '0.25em 0.5em',
+  marginRight: '0.5em',
+}
+
+/** Configures and runs a parameter sweep, and plots the results of a selected case against a swept param. */
+const SweepPanel = memo(function SweepPanel({
+  onCancel,
+  onRun,
+  points,
+  progress,
+}: {
+  onCancel: () => void
+  /** Runs the selected cases for every combination of the given values. */
+  onRun: (values: { [param in SweepParam]: number[] }) => void
+  points: SweepPoint[]
+  /** Index of the combination in progress and the number of combinations, or null if no sweep is running. */
+  progress: { i: number; n: number } | null
+}) {
+  const [text, setText] = useState<{ [param in SweepParam]: string }>({ total: '', limit: '', size: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [selectedTest, setSelectedTest] = useState<string>('')
+  const [selectedParam, setSelectedParam] = useState<SweepParam | ''>('')
+  // values of the swept params that are not plotted on the x axis
+  const [fixed, setFixed] = useState<{ [param in SweepParam]?: number }>({})
+
+  const testNames = useMemo(
+    () =>
+      [
+        ...new Set(points.flatMap(point => Object.values(point.results).flatMap(results => Object.keys(results)))),
+      ].sort(),
+    [points],
+  )
+  const varying = sweepParams.filter(param => new Set(points.map(point => point.params[param])).size > 1)
+  const testName = testNames.includes(selectedTest) ? selectedTest : testNames[0]
+  const param = selectedParam && varying.includes(selectedParam) ? selectedParam : varying[0]
+
+  /** Distinct values of a param across all points. */
+  const valuesOf = (p: SweepParam) => [...new Set(points.map(point => point.params[p]))].sort((a, b) => a - b)
+
+  const plotted = points.filter(point =>
+    varying.every(p => p === param || point.params[p] === (fixed[p] ?? valuesOf(p)[0])),
+  )
+
+  /** Parses the values and starts the sweep, or shows the validation error. */
+  const run = () => {
+    try {
+      const values = {
+        total: parseSweepValues(text.total, 'total'),
+        limit: parseSweepValues(text.limit, 'limit'),
+        size: parseSweepValues(text.size, 'size'),
+      }
+      if (sweepParams.every(p => values[p].length === 0)) throw new Error('Enter values for at least one param.')
+      setError(null)
+      onRun(values)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  return (
+    <div>
+      <p>
+        {sweepParams.map(p => (
+          <label key={p} style={{ marginRight: '1em' }}>
+            {p}{' '}
+            <input
+              onChange={e => setText({ ...text, [p]: e.target.value })}
+              placeholder={p === 'total' ? '1000..100000*10' : p === 'limit' ? '1, 10, 100' : ''}
+              style={{ ...inputStyle, width: '10em' }}
+              value={text[p]}
+            />
+          </label>
+        ))}
+      </p>
+      {error && <p style={{ color: 'tomato', margin: '0.5em 0' }}>{error}</p>}
+      <p>
+        <button onClick={run} disabled={!!progress} style={{ margin: '0.5em' }}>
+          Run sweep
+        </button>
+        <button onClick={onCancel} disabled={!progress} style={{ backgroundColor: '#1a1a1a', margin: '0.5em' }}>
+          Cancel
+        </button>
+        {progress && (
+          <span style={{ color: 'gray', margin: '0.5em' }}>
+            {progress.i + 1} of {progress.n}
+          </span>
+        )}
+      </p>
+      <p style={{ color: 'gray', margin: '0.5em 0' }}>
+        Reruns the selected cases for every combination of the given values. Values are comma-separated integers or
+        ranges, e.g. 1000..5000+1000 or 10..100000*10. Empty params use the config value.
+      </p>
+      {points.length > 0 && param && (
+        <>
+          <p>
+            <select value={testName} onChange={e => setSelectedTest(e.target.value)} style={inputStyle}>
+              {testNames.map(name => (
+                <option key={name}>{name}</option>
+              ))}
+            </select>
+            by{' '}
+            <select value={param} onChange={e => setSelectedParam(e.target.value as SweepParam)} style={inputStyle}>
+              {varying.map(p => (
+                <option key={p}>{p}</option>
+              ))}
+            </select>
+            {varying
+              .filter(p => p !== param)
+              .map(p => (
+                <label key={p} style={{ marginRight: '0.5em' }}>
+                  {p}{' '}
+                  <select
+                    value={fixed[p] ?? valuesOf(p)[0]}
+                    onChange={e => setFixed({ ...fixed, [p]: parseInt(e.target.value, 10) })}
+                    style={inputStyle}
+                  >
+                    {valuesOf(p).map(value => (
+                      <option key={value}>{value}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+          </p>
+          <SweepChart param={param} points={plotted} testName={testName} />
+        </>
+      )}
+    </div>
+  )
+})
+
+export default SweepPanel
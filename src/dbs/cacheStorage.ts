@@ -0,0 +1,130 @@
+import { compareKeys, inRange } from '../lib/keyRange'
+import { deserialize, serialize } from '../lib/serialize'
+import Database, { KeyRange, RecordKey } from '../types/Database'
+
+/** Prefix of all cache names, so that clear does not delete caches owned by the app. */
+const cachePrefix = 'benchmark/'
+
+/** Origin of the synthetic request URLs that records are stored under. Only the path is meaningful. */
+const origin = 'https://benchmark.invalid'
+
+/** Header that stores the original type of a value, since the body of a Response is always bytes. */
+const TYPE_HEADER = 'X-Value-Type'
+
+/** Converts a record key to a synthetic request URL. */
+const toUrl = (key: RecordKey) => `${origin}/${encodeURIComponent(key.toString())}`
+
+/** Converts a synthetic request URL back to a record key. Keys are stored in URLs, so numeric keys are read back as strings. */
+const toKey = (url: string) => decodeURIComponent(url.slice(origin.length + 1))
+
+/** Opens the cache of a store. */
+const openStore = (storeName: string) => caches.open(cachePrefix + storeName)
+
+/** Encodes a value as a Response. Uint8Arrays, ArrayBuffers, and Blobs are stored as a binary body. All other values are stored as tagged JSON, so that Dates and Maps are preserved. */
+const toResponse = async (value: any) =>
+  value instanceof Uint8Array
+    ? new Response(value, { headers: { [TYPE_HEADER]: 'Uint8Array' } })
+    : value instanceof ArrayBuffer
+    ? new Response(value, { headers: { [TYPE_HEADER]: 'ArrayBuffer' } })
+    : value instanceof Blob
+    ? new Response(value, {
+        headers: { [TYPE_HEADER]: 'Blob', ...(value.type ? { 'Content-Type': value.type } : null) },
+      })
+    : new Response(await serialize(value), { headers: { [TYPE_HEADER]: 'JSON', 'Content-Type': 'application/json' } })
+
+/** Decodes a Response created with toResponse. Resolves to undefined if there is no response. */
+const fromResponse = async (response: Response | undefined) => {
+  if (!response) return undefined
+  const type = response.headers.get(TYPE_HEADER)
+  return type === 'Uint8Array'
+    ? new Uint8Array(await response.arrayBuffer())
+    : type === 'ArrayBuffer'
+    ? response.arrayBuffer()
+    : type === 'Blob'
+    ? response.blob()
+    : deserialize(await response.text())
+}
+
+/** Gets the sorted record keys of a store within a key range. */
+const sortedKeys = async (cache: Cache, range?: KeyRange) =>
+  (await cache.keys())
+    .map(request => toKey(request.url))
+    .filter(key => inRange(key, range))
+    .sort(compareKeys)
+
+/** A Database backed by the Cache Storage API. Each store is a cache and each record is a Response stored under a synthetic request URL. */
+const runner: Database = {
+  available: () => typeof caches !== 'undefined',
+  clear: async () => {
+    const names = await caches.keys()
+    await Promise.all(names.filter(name => name.startsWith(cachePrefix)).map(name => caches.delete(name)))
+  },
+  createStore: async storeNames => {
+    const names = Array.isArray(storeNames) ? storeNames : [storeNames]
+    await Promise.all(names.map(openStore))
+  },
+  get: async (storeName, key) => {
+    const cache = await openStore(storeName)
+    return fromResponse(await cache.match(toUrl(key)))
+  },
+  getAll: async (storeName, mode, range, count) => {
+    const cache = await openStore(storeName)
+    if (!range && count == null) {
+      return Promise.all((await cache.matchAll()).map(fromResponse))
+    }
+    const keys = (await sortedKeys(cache, range)).slice(0, count || undefined)
+    return Promise.all(keys.map(async key => fromResponse(await cache.match(toUrl(key)))))
+  },
+  getAllKeys: async (storeName, range, count) => {
+    return (await sortedKeys(await openStore(storeName), range)).slice(0, count || undefined)
+  },
+  bulkGet: async (storeNames, keys) => {
+    return Promise.all(
+      keys.map(async (key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        const cache = await openStore(storeName)
+        return fromResponse(await cache.match(toUrl(key)))
+      }),
+    )
+  },
+  set: async (storeName, key, value) => {
+    const cache = await openStore(storeName)
+    await cache.put(toUrl(key), await toResponse(value))
+  },
+  bulkSet: async (storeNames, keys, values) => {
+    await Promise.all(
+      keys.map(async (key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        const cache = await openStore(storeName)
+        await cache.put(toUrl(key), await toResponse(values[i]))
+      }),
+    )
+  },
+  put: async (storeName, key, value) => {
+    const cache = await openStore(storeName)
+    await cache.put(toUrl(key), await toResponse(value))
+  },
+  delete: async (storeName, key) => {
+    const cache = await openStore(storeName)
+    await cache.delete(toUrl(key))
+  },
+  bulkDelete: async (storeNames, keys) => {
+    await Promise.all(
+      keys.map(async (key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        const cache = await openStore(storeName)
+        await cache.delete(toUrl(key))
+      }),
+    )
+  },
+  deleteRange: async (storeName, range) => {
+    const cache = await openStore(storeName)
+    await Promise.all((await sortedKeys(cache, range)).map(key => cache.delete(toUrl(key))))
+  },
+  clearStore: async storeName => {
+    await caches.delete(cachePrefix + storeName)
+    await openStore(storeName)
+  },
+}
+
+export default runner
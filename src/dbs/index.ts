@@ -1,9 +1,22 @@
+import { compose, gzip, json, msgpack } from '../lib/codecs'
+import withCodec from '../lib/withCodec'
+import cacheStorage from './cacheStorage'
 import memory from './memory'
 import indexedDB from './indexedDB'
+import localStorage from './localStorage'
+import opfs from './opfs'
 
 const dbs = {
   memory,
   indexedDB,
+  localStorage,
+  opfs,
+  cacheStorage,
+  // indexedDB with values encoded before they are stored
+  'indexedDB+json': withCodec(indexedDB, json),
+  'indexedDB+msgpack': withCodec(indexedDB, msgpack),
+  'indexedDB+gzip': withCodec(indexedDB, gzip),
+  'indexedDB+msgpack+gzip': withCodec(indexedDB, compose(msgpack, gzip)),
 } as const
 
 export type DatabaseName = keyof typeof dbs
@@ -1,22 +1,87 @@
-import Database from '../types/Database'
+import Database, { CursorOptions, Durability, KeyRange, RecordKey } from '../types/Database'
 
-const dbname = 'test'
+/** Name of the benchmark database. Shared with contention helpers that open the same database from other frames. */
+export const dbname = 'test'
 let dbinstance: IDBDatabase | null = null
 let dbversion = 1
+let durability: Durability = 'relaxed'
+
+// number of connection events since the last call to takeConnectionEvents
+let blocked = 0
+let versionchange = 0
+
+/** Returns the number of blocked and versionchange events since the last call and resets the counts. */
+export const takeConnectionEvents = () => {
+  const events = { blocked, versionchange }
+  blocked = 0
+  versionchange = 0
+  return events
+}
+
+/** Sets the global connection. Closes it if another connection requests a version change, so that other tabs are not blocked indefinitely. */
+const connect = (db: IDBDatabase) => {
+  dbinstance = db
+  db.onversionchange = () => {
+    versionchange++
+    db.close()
+    if (dbinstance === db) dbinstance = null
+  }
+}
+
+/** Converts an adapter-agnostic KeyRange to an IDBKeyRange. */
+const toIDBKeyRange = (range?: KeyRange): IDBKeyRange | undefined =>
+  !range
+    ? undefined
+    : range.lower != null && range.upper != null
+    ? IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen, range.upperOpen)
+    : range.lower != null
+    ? IDBKeyRange.lowerBound(range.lower, range.lowerOpen)
+    : range.upper != null
+    ? IDBKeyRange.upperBound(range.upper, range.upperOpen)
+    : undefined
+
+/** Opens a cursor or key cursor and calls onRecord for each record until the cursor is exhausted or onRecord returns false. */
+const iterate = (
+  storeName: string,
+  { range, direction, mode = 'readonly' }: CursorOptions,
+  keysOnly: boolean,
+  onRecord: (key: RecordKey, value?: any) => boolean | void,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!dbinstance) throw new Error('You have to open the database first.')
+    const tx = dbinstance.transaction(storeName, mode, { durability })
+    const store = tx.objectStore(storeName)
+    const req = keysOnly
+      ? store.openKeyCursor(toIDBKeyRange(range), direction)
+      : store.openCursor(toIDBKeyRange(range), direction)
+    req.onerror = (e: any) => reject(e.target.error)
+    req.onsuccess = () => {
+      const cursor = req.result
+      if (!cursor) return resolve()
+      const value = keysOnly ? undefined : (cursor as IDBCursorWithValue).value
+      if (onRecord(cursor.primaryKey as RecordKey, value) === false) return resolve()
+      cursor.continue()
+    }
+  })
 
 const runner: Database = {
   /** Open a global database connection. */
   open: async () => {
     return new Promise((resolve, reject) => {
       const openRequest = indexedDB.open(dbname)
-      openRequest.onerror = reject
+      openRequest.onerror = (e: any) => reject(e.target.error)
       openRequest.onsuccess = (e: any) => {
-        dbinstance = e.target.result
+        connect(e.target.result)
         resolve()
       }
     })
   },
 
+  /** Sets the durability hint of subsequent transactions. */
+  setDurability: value => {
+    durability = value
+  },
+
   close: async () => {
     dbinstance?.close()
   },
@@ -26,17 +91,24 @@ const runner: Database = {
     dbinstance?.close()
     dbinstance = null
     dbversion = 1
-    await indexedDB.deleteDatabase(dbname)
+    await new Promise((resolve, reject) => {
+      const deleteRequest = indexedDB.deleteDatabase(dbname)
+      deleteRequest.onerror = (e: any) => reject(e.target.error)
+      deleteRequest.onblocked = () => {
+        blocked++
+      }
+      deleteRequest.onsuccess = resolve
+    })
   },
 
   /** Gets a value at a key from a store. */
   get: (storeName, key, mode = 'readonly') => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeName, mode, { durability: 'relaxed' })
+      const tx = dbinstance.transaction(storeName, mode, { durability })
       const store = tx.objectStore(storeName)
       const getRequest = store.get(key)
-      getRequest.onerror = reject
+      getRequest.onerror = (e: any) => reject(e.target.error)
       getRequest.onsuccess = () => {
         resolve(getRequest.result)
       }
@@ -47,11 +119,11 @@ const runner: Database = {
   getAllByIndex: (storeName, indexName, key, mode = 'readonly') => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeName, mode, { durability: 'relaxed' })
+      const tx = dbinstance.transaction(storeName, mode, { durability })
       const store = tx.objectStore(storeName)
       const index = store.index(indexName)
       const req = index.getAll(key)
-      req.onerror = reject
+      req.onerror = (e: any) => reject(e.target.error)
       req.onsuccess = (e: any) => {
         resolve(e.target.result)
       }
@@ -59,35 +131,56 @@ const runner: Database = {
   },
 
   /** Gets all values in a store. */
-  getAll: (storeName, mode = 'readonly') => {
+  getAll: (storeName, mode = 'readonly', range, count) => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const tx = dbinstance.transaction(storeName, mode, { durability })
+      const store = tx.objectStore(storeName)
+      const req = store.getAll(toIDBKeyRange(range), count)
+      req.onerror = (e: any) => reject(e.target.error)
+      req.onsuccess = (e: any) => {
+        resolve(e.target.result)
+      }
+    })
+  },
+
+  /** Gets all keys in a store, optionally within a key range. */
+  getAllKeys: (storeName, range, count, mode = 'readonly') => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeName, mode, { durability: 'relaxed' })
+      const tx = dbinstance.transaction(storeName, mode, { durability })
       const store = tx.objectStore(storeName)
-      const req = store.getAll()
-      req.onerror = reject
+      const req = store.getAllKeys(toIDBKeyRange(range), count)
+      req.onerror = (e: any) => reject(e.target.error)
       req.onsuccess = (e: any) => {
         resolve(e.target.result)
       }
     })
   },
 
+  /** Iterates over records with a cursor. */
+  openCursor: (storeName, options, onRecord) => iterate(storeName, options, false, onRecord),
+
+  /** Iterates over keys with a key cursor. */
+  openKeyCursor: (storeName, options, onKey) => iterate(storeName, options, true, onKey),
+
   /** Gets one or more values for the given keys from a store. */
-  bulkGet: (storeNames, keys, mode) => {
+  bulkGet: (storeNames, keys, mode = 'readonly') => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeNames, 'readwrite', { durability: 'relaxed' })
+      // durability only applies to readwrite transactions
+      const tx = dbinstance.transaction(storeNames, mode, mode === 'readwrite' ? { durability } : undefined)
       const results: any[] = Array(keys.length).fill(undefined)
       keys.forEach((key, i) => {
         const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
         const store = tx.objectStore(storeName)
         const getRequest = store.get(key)
-        getRequest.onerror = reject
+        getRequest.onerror = (e: any) => reject(e.target.error)
         getRequest.onsuccess = (e: any) => {
           results[i] = e.target.result
         }
       })
-      tx.onerror = reject
+      tx.onerror = (e: any) => reject(e.target.error)
       tx.oncomplete = () => resolve(results)
     })
   },
@@ -98,7 +191,11 @@ const runner: Database = {
     return new Promise((resolve, reject) => {
       dbinstance?.close()
       const openRequest = indexedDB.open(dbname, ++dbversion)
-      openRequest.onerror = reject
+      openRequest.onerror = (e: any) => reject(e.target.error)
+      // another connection is still open, e.g. a contention helper that has not closed yet
+      openRequest.onblocked = () => {
+        blocked++
+      }
       openRequest.onupgradeneeded = (e: any) => {
         const db: IDBDatabase = e.target.result
         names.forEach(name => {
@@ -106,7 +203,7 @@ const runner: Database = {
         })
       }
       openRequest.onsuccess = (e: any) => {
-        dbinstance = e.target.result
+        connect(e.target.result)
         resolve()
       }
     })
@@ -118,14 +215,18 @@ const runner: Database = {
       if (!dbinstance) throw new Error('You have to open the database first.')
       dbinstance?.close()
       const openRequest = indexedDB.open(dbname, ++dbversion)
-      openRequest.onerror = reject
+      openRequest.onerror = (e: any) => reject(e.target.error)
+      // another connection is still open, e.g. a contention helper that has not closed yet
+      openRequest.onblocked = () => {
+        blocked++
+      }
       openRequest.onupgradeneeded = (e: any) => {
         const tx: IDBTransaction = e.target.transaction
         const store = tx.objectStore(storeName)
         store.createIndex(keyPath, keyPath)
       }
       openRequest.onsuccess = (e: any) => {
-        dbinstance = e.target.result
+        connect(e.target.result)
         resolve()
       }
     })
@@ -135,11 +236,13 @@ const runner: Database = {
   set: async (storeName, key, value) => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeName, 'readwrite', { durability: 'relaxed' })
+      const tx = dbinstance.transaction(storeName, 'readwrite', { durability })
       const store = tx.objectStore(storeName)
-      const addRequest = store.add(value, key)
-      addRequest.onerror = reject
-      addRequest.onsuccess = () => resolve()
+      store.add(value, key)
+      // resolve once the transaction commits so that the durability flush is measured
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.onabort = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
     })
   },
 
@@ -147,13 +250,82 @@ const runner: Database = {
   bulkSet: async (storeNames, keys, values) => {
     return new Promise((resolve, reject) => {
       if (!dbinstance) throw new Error('You have to open the database first.')
-      const tx = dbinstance.transaction(storeNames, 'readwrite', { durability: 'relaxed' })
+      const tx = dbinstance.transaction(storeNames, 'readwrite', { durability })
       keys.forEach((_, i) => {
         const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
         const store = tx.objectStore(storeName)
         store.add(values[i], keys[i])
       })
-      tx.onerror = reject
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
+    })
+  },
+
+  /** Sets a value, overwriting any existing value at the key. */
+  put: async (storeName, key, value) => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const tx = dbinstance.transaction(storeName, 'readwrite', { durability })
+      const store = tx.objectStore(storeName)
+      store.put(value, key)
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.onabort = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
+    })
+  },
+
+  /** Deletes the record at a key. */
+  delete: async (storeName, key) => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const tx = dbinstance.transaction(storeName, 'readwrite', { durability })
+      const store = tx.objectStore(storeName)
+      store.delete(key)
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.onabort = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
+    })
+  },
+
+  /** Deletes the records at one or more keys in a single transaction. */
+  bulkDelete: async (storeNames, keys) => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const tx = dbinstance.transaction(storeNames, 'readwrite', { durability })
+      keys.forEach((key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        const store = tx.objectStore(storeName)
+        store.delete(key)
+      })
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
+    })
+  },
+
+  /** Deletes all records within a key range. */
+  deleteRange: async (storeName, range) => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const idbRange = toIDBKeyRange(range)
+      if (!idbRange) throw new Error('deleteRange requires a bounded key range.')
+      const tx = dbinstance.transaction(storeName, 'readwrite', { durability })
+      const store = tx.objectStore(storeName)
+      store.delete(idbRange)
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.onabort = (e: any) => reject(e.target.error)
+      tx.oncomplete = () => resolve()
+    })
+  },
+
+  /** Deletes all records in a store. */
+  clearStore: async storeName => {
+    return new Promise((resolve, reject) => {
+      if (!dbinstance) throw new Error('You have to open the database first.')
+      const tx = dbinstance.transaction(storeName, 'readwrite', { durability })
+      const store = tx.objectStore(storeName)
+      store.clear()
+      tx.onerror = (e: any) => reject(e.target.error)
+      tx.onabort = (e: any) => reject(e.target.error)
       tx.oncomplete = () => resolve()
     })
   },
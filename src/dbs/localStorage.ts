@@ -1,36 +1,115 @@
-import Database from '../types/Database'
-
-const runner: Database = {
-  clear: async () => localStorage.clear(),
-  createStore: async storeNames => {
-    const names = Array.isArray(storeNames) ? storeNames : [storeNames]
-    names.forEach(name => {
-      const store = localStorage.getItem(name)
-      if (!store) {
-        localStorage.setItem(name, '{}')
+import { compareKeys, inRange } from '../lib/keyRange'
+import { deserialize, serialize } from '../lib/serialize'
+import Database, { KeyRange, RecordKey } from '../types/Database'
+
+/** Approximate localStorage quota per origin, in characters of item keys and values. Most browsers allow about 5 million. */
+const QUOTA = 5_000_000
+
+/** Returns true if the error is thrown when localStorage is full. Firefox uses a different name than other browsers. */
+const isQuotaError = (e: unknown) =>
+  (e as DOMException)?.name === 'QuotaExceededError' || (e as DOMException)?.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+
+/** Creates a Database backed by localStorage. Each record is stored in its own localStorage item under `${namespace}/${storeName}/${key}`, so that reads and writes do not have to parse and rewrite an entire store. Only items within the namespace are touched, so multiple instances can share localStorage. Store names must not contain '/'. */
+export const createLocalStorageDatabase = (namespace: string): Database => {
+  /** Gets the localStorage item key of a record. */
+  const itemKey = (storeName: string, key: RecordKey) => `${namespace}/${storeName}/${key}`
+
+  /** Sets a localStorage item. Rethrows quota errors with the size of the namespace and the quota, since the default config stores more than localStorage can hold. */
+  const setItem = (itemKey: string, value: string) => {
+    try {
+      localStorage.setItem(itemKey, value)
+    } catch (e) {
+      if (!isQuotaError(e)) throw e
+      const itemKeys = itemKeysWithPrefix(`${namespace}/`)
+      const size = itemKeys.reduce((accum, key) => accum + key.length + (localStorage.getItem(key)?.length ?? 0), 0)
+      const error = new Error(
+        `localStorage is full after ${itemKeys.length} records (${(size / 1e6).toFixed(
+          1,
+        )}M characters). localStorage holds about ${
+          QUOTA / 1e6
+        }M characters per origin, so lower the total or the payload size.`,
+      )
+      error.name = 'QuotaExceededError'
+      throw error
+    }
+  }
+
+  /** Gets all localStorage item keys with the given prefix. */
+  const itemKeysWithPrefix = (prefix: string) => {
+    const itemKeys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const itemKey = localStorage.key(i)
+      if (itemKey?.startsWith(prefix)) {
+        itemKeys.push(itemKey)
       }
-    })
-  },
-  get: async (storeName, key) => {
-    const store = localStorage.getItem(storeName)
-    return store ? JSON.parse(store)[key.toString()] : undefined
-  },
-  bulkGet: async () => {
-    throw new Error('Not Implemented')
-  },
-  set: async (storeName, key, value) => {
-    const store = JSON.parse(localStorage.getItem(key.toString()) || '{}')
-    localStorage.setItem(
-      storeName,
-      JSON.stringify({
-        ...store,
-        [key]: value,
-      }),
-    )
-  },
-  bulkSet: async () => {
-    throw new Error('Not Implemented')
-  },
+    }
+    return itemKeys
+  }
+
+  /** Gets the sorted record keys of a store within a key range. Keys are stored in item keys, so numeric keys are compared as strings. */
+  const sortedKeys = (storeName: string, range?: KeyRange) => {
+    const prefix = `${namespace}/${storeName}/`
+    return itemKeysWithPrefix(prefix)
+      .map(itemKey => itemKey.slice(prefix.length))
+      .filter(key => inRange(key, range))
+      .sort(compareKeys)
+  }
+
+  return {
+    available: () => typeof localStorage !== 'undefined',
+    clear: async () => {
+      itemKeysWithPrefix(`${namespace}/`).forEach(itemKey => localStorage.removeItem(itemKey))
+    },
+    // stores are implicit in the item key prefix
+    createStore: async () => {},
+    get: async (storeName, key) => {
+      return deserialize(localStorage.getItem(itemKey(storeName, key)))
+    },
+    getAll: async (storeName, mode, range, count) => {
+      return sortedKeys(storeName, range)
+        .slice(0, count || undefined)
+        .map(key => deserialize(localStorage.getItem(itemKey(storeName, key))))
+    },
+    getAllKeys: async (storeName, range, count) => {
+      return sortedKeys(storeName, range).slice(0, count || undefined)
+    },
+    bulkGet: async (storeNames, keys) => {
+      return keys.map((key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        return deserialize(localStorage.getItem(itemKey(storeName, key)))
+      })
+    },
+    set: async (storeName, key, value) => {
+      setItem(itemKey(storeName, key), await serialize(value))
+    },
+    bulkSet: async (storeNames, keys, values) => {
+      const items = await Promise.all(values.map(serialize))
+      keys.forEach((key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        setItem(itemKey(storeName, key), items[i])
+      })
+    },
+    put: async (storeName, key, value) => {
+      setItem(itemKey(storeName, key), await serialize(value))
+    },
+    delete: async (storeName, key) => {
+      localStorage.removeItem(itemKey(storeName, key))
+    },
+    bulkDelete: async (storeNames, keys) => {
+      keys.forEach((key, i) => {
+        const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+        localStorage.removeItem(itemKey(storeName, key))
+      })
+    },
+    deleteRange: async (storeName, range) => {
+      sortedKeys(storeName, range).forEach(key => localStorage.removeItem(itemKey(storeName, key)))
+    },
+    clearStore: async storeName => {
+      itemKeysWithPrefix(`${namespace}/${storeName}/`).forEach(itemKey => localStorage.removeItem(itemKey))
+    },
+  }
 }
 
+const runner = createLocalStorageDatabase('benchmark')
+
 export default runner
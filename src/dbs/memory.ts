@@ -1,4 +1,5 @@
-import Database from '../types/Database'
+import { compareKeys, inRange } from '../lib/keyRange'
+import Database, { CursorDirection, KeyRange } from '../types/Database'
 
 let cache: {
   [key: string]: {
@@ -6,6 +7,14 @@ let cache: {
   }
 } = {}
 
+/** Gets the sorted keys of a store within a key range. Keys are stored as object properties, so numeric keys are compared as strings. */
+const sortedKeys = (storeName: string, range?: KeyRange, direction: CursorDirection = 'next') => {
+  const keys = Object.keys(cache[storeName])
+    .filter(key => inRange(key, range))
+    .sort(compareKeys)
+  return direction === 'prev' || direction === 'prevunique' ? keys.reverse() : keys
+}
+
 const runner: Database = {
   clear: async () => {
     cache = {}
@@ -19,8 +28,24 @@ const runner: Database = {
   get: async (storeName, key) => {
     return cache[storeName][key]
   },
-  getAll: async storeName => {
-    return Object.values(cache[storeName])
+  getAll: async (storeName, mode, range, count) => {
+    if (!range && count == null) return Object.values(cache[storeName])
+    return sortedKeys(storeName, range)
+      .slice(0, count || undefined)
+      .map(key => cache[storeName][key])
+  },
+  getAllKeys: async (storeName, range, count) => {
+    return sortedKeys(storeName, range).slice(0, count || undefined)
+  },
+  openCursor: async (storeName, { range, direction }, onRecord) => {
+    for (const key of sortedKeys(storeName, range, direction)) {
+      if (onRecord(key, cache[storeName][key]) === false) break
+    }
+  },
+  openKeyCursor: async (storeName, { range, direction }, onKey) => {
+    for (const key of sortedKeys(storeName, range, direction)) {
+      if (onKey(key) === false) break
+    }
   },
   bulkGet: async (storeNames, keys, values) => {
     return keys.map((key, i) => {
@@ -37,6 +62,26 @@ const runner: Database = {
       cache[storeName][keys[i]] = values[i]
     })
   },
+  put: async (storeName, key, value) => {
+    cache[storeName][key] = value
+  },
+  delete: async (storeName, key) => {
+    delete cache[storeName][key]
+  },
+  bulkDelete: async (storeNames, keys) => {
+    keys.forEach((key, i) => {
+      const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+      delete cache[storeName][key]
+    })
+  },
+  deleteRange: async (storeName, range) => {
+    sortedKeys(storeName, range).forEach(key => {
+      delete cache[storeName][key]
+    })
+  },
+  clearStore: async storeName => {
+    cache[storeName] = {}
+  },
 }
 
 export default runner
@@ -0,0 +1,260 @@
+import { compareKeys, inRange } from '../lib/keyRange'
+import { deserialize, serialize } from '../lib/serialize'
+import Database, { KeyRange, RecordKey } from '../types/Database'
+
+/** Parts of the Origin Private File System API that are missing from the TypeScript DOM lib. */
+interface SyncAccessHandle {
+  read: (buffer: Uint8Array, options?: { at?: number }) => number
+  write: (buffer: Uint8Array, options?: { at?: number }) => number
+  truncate: (size: number) => void
+  getSize: () => number
+  flush: () => void
+  close: () => void
+}
+type FileHandle = FileSystemFileHandle & {
+  /** Only available in dedicated workers. */
+  createSyncAccessHandle?: () => Promise<SyncAccessHandle>
+  createWritable?: () => Promise<{ write: (data: Uint8Array) => Promise<void>; close: () => Promise<void> }>
+}
+type DirectoryHandle = FileSystemDirectoryHandle & { keys: () => AsyncIterableIterator<string> }
+
+/** Name of the directory in the origin private file system that contains all stores. */
+const rootName = 'benchmark'
+
+// type tag stored in the first byte of each file
+const BINARY = 0
+const JSON_VALUE = 1
+const ARRAY_BUFFER = 2
+const BLOB = 3
+
+/** Encodes a value as bytes. Uint8Arrays, ArrayBuffers, and Blobs are stored as-is, without the Blob type. All other values are stored as tagged JSON, so that Dates and Maps are preserved. */
+const encode = async (value: any): Promise<Uint8Array> => {
+  const [tag, body] =
+    value instanceof Uint8Array
+      ? [BINARY, value]
+      : value instanceof ArrayBuffer
+      ? [ARRAY_BUFFER, new Uint8Array(value)]
+      : value instanceof Blob
+      ? [BLOB, new Uint8Array(await value.arrayBuffer())]
+      : [JSON_VALUE, new TextEncoder().encode(await serialize(value))]
+  const bytes = new Uint8Array(body.length + 1)
+  bytes[0] = tag
+  bytes.set(body, 1)
+  return bytes
+}
+
+/** Decodes bytes encoded with encode. */
+const decode = (bytes: Uint8Array): any =>
+  bytes[0] === BINARY
+    ? bytes.slice(1)
+    : bytes[0] === ARRAY_BUFFER
+    ? bytes.slice(1).buffer
+    : bytes[0] === BLOB
+    ? new Blob([bytes.subarray(1)])
+    : deserialize(new TextDecoder().decode(bytes.subarray(1)))
+
+/** Gets the root directory of all stores. */
+const getRoot = async () =>
+  (await navigator.storage.getDirectory()).getDirectoryHandle(rootName, { create: true }) as Promise<DirectoryHandle>
+
+/** Gets the directory of a store. */
+const getStore = async (storeName: string) =>
+  (await getRoot()).getDirectoryHandle(storeName) as Promise<DirectoryHandle>
+
+/** Converts a record key to a file name. Keys are stored as file names, so numeric keys are read back as strings. */
+const fileName = (key: RecordKey) => encodeURIComponent(key.toString())
+
+/** Reads a file. Uses a sync access handle if available (dedicated workers only), otherwise reads a File snapshot. */
+const readFile = async (fileHandle: FileHandle): Promise<Uint8Array> => {
+  if (fileHandle.createSyncAccessHandle) {
+    const handle = await fileHandle.createSyncAccessHandle()
+    try {
+      const bytes = new Uint8Array(handle.getSize())
+      handle.read(bytes, { at: 0 })
+      return bytes
+    } finally {
+      handle.close()
+    }
+  }
+  return new Uint8Array(await (await fileHandle.getFile()).arrayBuffer())
+}
+
+/** Writes a file. Uses a sync access handle if available (dedicated workers only), otherwise a writable stream. */
+const writeFile = async (fileHandle: FileHandle, bytes: Uint8Array): Promise<void> => {
+  if (fileHandle.createSyncAccessHandle) {
+    const handle = await fileHandle.createSyncAccessHandle()
+    try {
+      handle.truncate(0)
+      handle.write(bytes, { at: 0 })
+      handle.flush()
+    } finally {
+      handle.close()
+    }
+  } else if (fileHandle.createWritable) {
+    const writable = await fileHandle.createWritable()
+    await writable.write(bytes)
+    await writable.close()
+  } else {
+    throw new Error('OPFS writes are not supported in this context. Try running in a worker.')
+  }
+}
+
+// the last pending access of each file, keyed by `${storeName}/${fileName}`
+const fileLocks = new Map<string, Promise<void>>()
+
+/** Runs f after all earlier accesses to the same record have settled. Sync access handles are exclusive, so concurrent accesses to the same file would otherwise fail with NoModificationAllowedError. */
+const withFileLock = <T>(store: DirectoryHandle, key: RecordKey, f: () => Promise<T>): Promise<T> => {
+  const path = `${store.name}/${fileName(key)}`
+  const result = (fileLocks.get(path) ?? Promise.resolve()).then(f)
+  const settled = result.then(
+    () => {},
+    () => {},
+  )
+  fileLocks.set(path, settled)
+  settled.then(() => {
+    if (fileLocks.get(path) === settled) fileLocks.delete(path)
+  })
+  return result
+}
+
+/** Reads a record from a store directory. Resolves to undefined if the record does not exist. */
+const readRecord = (store: DirectoryHandle, key: RecordKey) =>
+  withFileLock(store, key, async () => {
+    let fileHandle: FileHandle
+    try {
+      fileHandle = await store.getFileHandle(fileName(key))
+    } catch (e) {
+      if ((e as DOMException).name === 'NotFoundError') return undefined
+      throw e
+    }
+    return decode(await readFile(fileHandle))
+  })
+
+/** Writes a record to a store directory, overwriting any existing record. */
+const writeRecord = (store: DirectoryHandle, key: RecordKey, value: any) =>
+  withFileLock(store, key, async () => {
+    const fileHandle: FileHandle = await store.getFileHandle(fileName(key), { create: true })
+    await writeFile(fileHandle, await encode(value))
+  })
+
+/** Deletes a record from a store directory. Ignores missing records. */
+const deleteRecord = (store: DirectoryHandle, key: RecordKey) =>
+  withFileLock(store, key, async () => {
+    try {
+      await store.removeEntry(fileName(key))
+    } catch (e) {
+      if ((e as DOMException).name !== 'NotFoundError') throw e
+    }
+  })
+
+/** Gets the sorted record keys of a store within a key range. */
+const sortedKeys = async (store: DirectoryHandle, range?: KeyRange) => {
+  const keys: string[] = []
+  for await (const name of store.keys()) {
+    keys.push(decodeURIComponent(name))
+  }
+  return keys.filter(key => inRange(key, range)).sort(compareKeys)
+}
+
+/** Groups keys by store name so that each store directory is only resolved once. Returns the index of each key so results can be returned in order. */
+const groupByStore = (storeNames: string | string[], keys: RecordKey[]) => {
+  const groups = new Map<string, number[]>()
+  keys.forEach((_, i) => {
+    const storeName = Array.isArray(storeNames) ? storeNames[i] : storeNames
+    const indexes = groups.get(storeName)
+    if (indexes) {
+      indexes.push(i)
+    } else {
+      groups.set(storeName, [i])
+    }
+  })
+  return groups
+}
+
+/** Maximum number of file operations that bulk reads, writes, and deletes have in flight at once, so that a large prefill or getAll does not open thousands of file handles at the same time. */
+const BATCH_SIZE = 32
+
+/** Calls f on each item and its index in batches of BATCH_SIZE. Each batch is started after the previous batch finishes. */
+const inBatches = async <T>(items: T[], f: (item: T, i: number) => Promise<void>) => {
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    await Promise.all(items.slice(i, i + BATCH_SIZE).map((item, j) => f(item, i + j)))
+  }
+}
+
+/** A Database backed by the Origin Private File System. Each store is a directory and each record is a file. */
+const runner: Database = {
+  available: () => typeof navigator !== 'undefined' && !!navigator.storage?.getDirectory,
+  clear: async () => {
+    try {
+      await (await navigator.storage.getDirectory()).removeEntry(rootName, { recursive: true })
+    } catch (e) {
+      if ((e as DOMException).name !== 'NotFoundError') throw e
+    }
+  },
+  createStore: async storeNames => {
+    const names = Array.isArray(storeNames) ? storeNames : [storeNames]
+    const root = await getRoot()
+    await Promise.all(names.map(name => root.getDirectoryHandle(name, { create: true })))
+  },
+  get: async (storeName, key) => {
+    return readRecord(await getStore(storeName), key)
+  },
+  getAll: async (storeName, mode, range, count) => {
+    const store = await getStore(storeName)
+    const keys = (await sortedKeys(store, range)).slice(0, count || undefined)
+    const values: any[] = Array(keys.length).fill(undefined)
+    await inBatches(keys, async (key, i) => {
+      values[i] = await readRecord(store, key)
+    })
+    return values
+  },
+  getAllKeys: async (storeName, range, count) => {
+    return (await sortedKeys(await getStore(storeName), range)).slice(0, count || undefined)
+  },
+  bulkGet: async (storeNames, keys) => {
+    const results: any[] = Array(keys.length).fill(undefined)
+    for (const [storeName, indexes] of groupByStore(storeNames, keys)) {
+      const store = await getStore(storeName)
+      // keys may repeat, so each record is only read once
+      const reads = new Map<string, Promise<any>>()
+      await inBatches(indexes, async i => {
+        const name = fileName(keys[i])
+        if (!reads.has(name)) reads.set(name, readRecord(store, keys[i]))
+        results[i] = await reads.get(name)
+      })
+    }
+    return results
+  },
+  set: async (storeName, key, value) => {
+    await writeRecord(await getStore(storeName), key, value)
+  },
+  bulkSet: async (storeNames, keys, values) => {
+    for (const [storeName, indexes] of groupByStore(storeNames, keys)) {
+      const store = await getStore(storeName)
+      await inBatches(indexes, i => writeRecord(store, keys[i], values[i]))
+    }
+  },
+  put: async (storeName, key, value) => {
+    await writeRecord(await getStore(storeName), key, value)
+  },
+  delete: async (storeName, key) => {
+    await deleteRecord(await getStore(storeName), key)
+  },
+  bulkDelete: async (storeNames, keys) => {
+    for (const [storeName, indexes] of groupByStore(storeNames, keys)) {
+      const store = await getStore(storeName)
+      await inBatches(indexes, i => deleteRecord(store, keys[i]))
+    }
+  },
+  deleteRange: async (storeName, range) => {
+    const store = await getStore(storeName)
+    await inBatches(await sortedKeys(store, range), key => deleteRecord(store, key))
+  },
+  clearStore: async storeName => {
+    const root = await getRoot()
+    await root.removeEntry(storeName, { recursive: true })
+    await root.getDirectoryHandle(storeName, { create: true })
+  },
+}
+
+export default runner
@@ -1,36 +1,111 @@
 import BenchmarkCase from '../types/BenchmarkCase'
+import BenchmarkStats from '../types/BenchmarkStats'
+import CaseError, { CasePhase } from '../types/CaseError'
+import OutlierFilter from '../types/OutlierFilter'
+import rejectOutliers from './outliers'
+import seededRandom from './random'
+import stats, { meanAndDeviation } from './stats'
 
 /** Asynchronously waits for a number of milliseconds*/
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
+/** Returns a shuffled copy of a list (Fisher-Yates). */
+const shuffle = <T>(list: T[], random: () => number): T[] => {
+  const shuffled = [...list]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/** Samples of a case, combined across rounds. */
+interface CaseRounds {
+  samples: number[]
+  /** Total number of milliseconds of the measured iterations, including time spent waiting on other in-flight operations. */
+  elapsed: number
+  /** The mean of each round, after outliers are dropped. */
+  means: number[]
+}
+
+/** Wraps an error thrown by a case with the phase and iteration it was thrown in. */
+class CaseFailure extends Error {
+  error: CaseError
+  constructor(error: CaseError) {
+    super(error.message)
+    this.error = error
+  }
+}
+
+/** Rejects with a TimeoutError if the promise does not settle within a number of milliseconds. The promise itself cannot be cancelled and is left running. */
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(message)
+      error.name = 'TimeoutError'
+      reject(error)
+    }, ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/** Runs a case callback. Rethrows any error as a CaseFailure with the phase and iteration it was thrown in. If a timeout is given, the callback fails with a TimeoutError when it takes longer. */
+const attempt = async <T>(
+  phase: CasePhase,
+  iteration: number | undefined,
+  f: () => T | Promise<T>,
+  timeout?: { ms: number; message: string },
+): Promise<T> => {
+  try {
+    if (!timeout) return await f()
+    if (timeout.ms <= 0) throw Object.assign(new Error(timeout.message), { name: 'TimeoutError' })
+    return await withTimeout(Promise.resolve().then(f), timeout.ms, timeout.message)
+  } catch (e) {
+    if (e instanceof CaseFailure) throw e
+    // IndexedDB-style adapters may reject with the error event rather than the DOMException on its target
+    const error = typeof Event !== 'undefined' && e instanceof Event ? (e.target as IDBRequest)?.error ?? e : e
+    throw new CaseFailure({
+      name: (error as Error)?.name ?? 'Error',
+      message: (error as Error)?.message ?? String(error),
+      phase,
+      iteration,
+    })
+  }
+}
+
 const Benchmark = ({
   delay = 100,
   cycle,
   iteration,
   iterations = 1000,
+  warmupIterations = 0,
+  outliers = 'none',
+  verify = false,
+  verified,
+  failed,
   beforeAll,
   afterAll,
   preMeasureIteration,
   preMeasureIterations,
+  iterationTimeout = 0,
+  caseTimeout = 0,
+  setupTimeout = 0,
+  rounds = 1,
+  orderSeed = 1,
 }: {
   delay?: number
-  /** Callback invoked after all iterations of a case are run. Not called if run is aborted. */
-  cycle?: (
-    name: string,
-    stats: {
-      /** The mean number of milliseconds of an iteration of this case. */
-      mean: number
-    },
-  ) => void | Promise<void>
+  /** Callback invoked after all iterations of a case are run, in the last round when running multiple rounds. Not called if run is aborted. */
+  cycle?: (name: string, stats: BenchmarkStats) => void | Promise<void>
   /** Callback invoked after a single iteration of a case is run. */
   iteration?: (
     name: string,
     stats: {
-      /** The index of the current iteration. */
+      /** The index of the current iteration, counted across rounds. */
       i: number
       /** The number of milliseconds of this iteration. */
       ms: number
-      /** The running mean number of milliseconds of all iterations so far. */
+      /** The running mean number of milliseconds of all iterations so far, including earlier rounds. */
       mean: number
     },
   ) => void | Promise<void>
@@ -40,6 +115,26 @@ const Benchmark = ({
   iterations?: number
   /** Total number of iterations to run before measurement in each case. */
   preMeasureIterations?: number
+  /** Number of unmeasured iterations of measure to run before measurement in each case, to let the JIT and the first transaction settle. Warmup iterations are passed indexes after the measured range, i.e. [iterations..iterations+warmupIterations-1], so they do not collide with keys used by measured iterations. */
+  warmupIterations?: number
+  /** Method used to drop outlier samples before statistics are calculated (default: 'none'). */
+  outliers?: OutlierFilter
+  /** Runs the verify callback of each case after it is prefilled and before it is measured (default: false). */
+  verify?: boolean
+  /** Callback invoked after a case is verified, with a description of the mismatch if the data is wrong. */
+  verified?: (name: string, mismatch?: string) => void | Promise<void>
+  /** Callback invoked when a case throws. The case is stopped, its after callback is still called, and the run continues with the next case. */
+  failed?: (name: string, error: CaseError) => void | Promise<void>
+  /** Maximum number of milliseconds a single preMeasure, warmup, measure, postMeasure, or verify call may take before the case fails with a TimeoutError (default: 0, no limit). */
+  iterationTimeout?: number
+  /** Maximum number of milliseconds a whole case may take, from before through the last measured iteration, before it fails with a TimeoutError. after is not included so that it can still clean up (default: 0, no limit). */
+  caseTimeout?: number
+  /** Maximum number of milliseconds the before and after callbacks of a case may take before the case fails with a TimeoutError (default: 0, no limit). */
+  setupTimeout?: number
+  /** Number of times to run the whole suite. Each round runs every case with all of its iterations, in an order that is shuffled each round, and the samples of each case are combined across rounds. Spreads slow periods such as thermal throttling or background compaction across all cases (default: 1). */
+  rounds?: number
+  /** Seed of the shuffled case order when running multiple rounds (default: 1). */
+  orderSeed?: number
   /** Global setup called once at the start of run. */
   beforeAll?: () => void | Promise<void>
   /** Global teardown called once at the end of run. */
@@ -47,6 +142,8 @@ const Benchmark = ({
 } = {}) => {
   const tests: BenchmarkCase[] = []
   let totalms = 0
+  // per-iteration samples of the current case in milliseconds
+  let samples: number[] = []
 
   // abort current run
   let abort = false
@@ -54,11 +151,28 @@ const Benchmark = ({
   // track running for cancel method
   let running = false
 
+  // time at which the current case times out, as returned by performance.now()
+  let caseDeadline = Infinity
+
+  /** Gets the timeout of a callback in the current case: the timeout of its phase, shortened to the time left until the case deadline. Returns undefined if neither applies. */
+  const timeoutOf = (phase: CasePhase): { ms: number; message: string } | undefined => {
+    const setup = phase === 'before' || phase === 'after'
+    const ms = setup ? setupTimeout : iterationTimeout
+    const label = setup ? 'Setup' : phase === 'verify' ? 'Verify' : 'Iteration'
+    // after is exempt from the case deadline so that it can always clean up
+    const remaining = phase === 'after' ? Infinity : caseDeadline - performance.now()
+    if (ms > 0 && ms <= remaining) return { ms, message: `${label} timed out after ${ms} ms.` }
+    if (remaining !== Infinity) return { ms: remaining, message: `Case timed out after ${caseTimeout} ms.` }
+    return undefined
+  }
+
   /** Resets the benchmark running state. */
   const reset = () => {
     abort = false
     running = false
+    caseDeadline = Infinity
     totalms = 0
+    samples = []
   }
 
   /** Execute the preMeasure callback for all the iterations of a single test. */
@@ -69,54 +183,165 @@ const Benchmark = ({
         reset()
         break
       }
-      await preMeasure(i)
+      await attempt('preMeasure', i, () => preMeasure(i), timeoutOf('preMeasure'))
       await preMeasureIteration?.(name, { i })
       if (abort || !running) break
     }
   }
 
-  /** Execute and measure all the iterations of a single test. */
-  const runCase = async ({ name, bulk, measure, postMeasure }: BenchmarkCase): Promise<void> => {
-    for (let i = 0; i < iterations; i++) {
-      if (abort || !running) {
-        reset()
-        break
-      }
-      const start = performance.now()
-      await measure(i)
-      const end = performance.now()
-      // if doing a bulk operation, each iteration performs multiple operations (bulkIterations), so we need to divide the actual ms by bulkIterations to get an average per-operation measurement that is comparable to non-bulk tests
-      const ms = (end - start) / (bulk ?? 1)
+  /** Execute the verify callback of a single test. Only a description returned by verify is reported as a mismatch. Errors and timeouts fail the case like in any other phase. */
+  const runVerify = async ({ name, verify: verifyCase }: BenchmarkCase): Promise<void> => {
+    if (!verify || !verifyCase || abort || !running) return
+    const mismatch = await attempt('verify', undefined, verifyCase, timeoutOf('verify'))
+    await verified?.(name, mismatch)
+  }
+
+  /** Execute the measure callback for all the warmup iterations of a single test without recording samples. */
+  const runWarmup = async ({ measure, postMeasure }: BenchmarkCase): Promise<void> => {
+    for (let i = iterations; i < iterations + warmupIterations; i++) {
       if (abort || !running) break
-      totalms += ms
-      await iteration?.(name, { i, ms, mean: totalms / (i + 1) })
+      await attempt('warmup', i, () => measure(i), timeoutOf('warmup'))
       if (abort || !running) break
-      await postMeasure?.(i)
+      await attempt('postMeasure', i, () => postMeasure?.(i), timeoutOf('postMeasure'))
     }
-    if (running && !abort) {
-      await cycle?.(name, { mean: totalms / iterations })
-      totalms = 0
+  }
+
+  /** Execute and measure all the iterations of a single test in a single round, and returns the elapsed milliseconds. Samples are appended to the samples of previous rounds. If the test has a concurrency greater than 1, iterations are run in that many concurrent lanes, and each iteration's latency is measured individually. */
+  const runCase = async (
+    { name, bulk, concurrency = 1, measure, postMeasure }: BenchmarkCase,
+    round: number,
+  ): Promise<number> => {
+    // index of the next iteration to be claimed by a lane
+    let next = 0
+    // set when a lane throws, so that the other lanes stop claiming iterations
+    let failure = false
+
+    /** Runs iterations one after another until all iterations have been claimed. */
+    const lane = async () => {
+      while (next < iterations && !failure) {
+        if (abort || !running) {
+          reset()
+          break
+        }
+        const i = next++
+        let measured = 0
+        try {
+          // time only the measure call, so that the timeout race is not included in the sample
+          await attempt(
+            'measure',
+            i,
+            async () => {
+              const start = performance.now()
+              await measure(i)
+              measured = performance.now() - start
+            },
+            timeoutOf('measure'),
+          )
+        } catch (e) {
+          failure = true
+          throw e
+        }
+        // if doing a bulk operation, each iteration performs multiple operations (bulkIterations), so we need to divide the actual ms by bulkIterations to get an average per-operation measurement that is comparable to non-bulk tests
+        const ms = measured / (bulk ?? 1)
+        if (abort || !running) break
+        totalms += ms
+        samples.push(ms)
+        await iteration?.(name, { i: round * iterations + i, ms, mean: totalms / samples.length })
+        if (abort || !running) break
+        try {
+          await attempt('postMeasure', i, () => postMeasure?.(i), timeoutOf('postMeasure'))
+        } catch (e) {
+          failure = true
+          throw e
+        }
+      }
     }
+
+    const start = performance.now()
+    // wait for all lanes to settle so that no iteration is in flight when after is called
+    const lanes = await Promise.allSettled(Array(Math.max(1, concurrency)).fill(0).map(lane))
+    const elapsed = performance.now() - start
+    const rejected = lanes.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (rejected) throw rejected.reason
+    return elapsed
+  }
+
+  /** Calculates the statistics of a case from the samples of all rounds, and reports them to the cycle callback. */
+  const report = async ({ name, bulk, concurrency = 1 }: BenchmarkCase, { samples, elapsed, means }: CaseRounds) => {
+    const filtered = rejectOutliers(samples, outliers)
+    await cycle?.(name, {
+      ...stats(filtered.samples, filtered.rejected),
+      // includes unmeasured postMeasure time, so it is a lower bound for cases with postMeasure
+      throughput: elapsed > 0 ? (samples.length * (bulk ?? 1)) / (elapsed / 1000) : 0,
+      concurrency: Math.max(1, concurrency),
+      ...(means.length > 1
+        ? { rounds: means.length, roundMeans: means, roundDeviation: meanAndDeviation(means).deviation }
+        : null),
+    })
   }
 
   const run = async () => {
     if (running) return
 
     running = true
-    await beforeAll?.()
-
-    for (let i = 0; i < tests.length; i++) {
-      const test = tests[i]
-      await test.before?.(test.name)
-      await runPreMeasure(test)
-      await sleep(delay)
-      await runCase(test)
-      await test.after?.(test.name)
-      await sleep(delay)
-    }
+    const random = seededRandom(orderSeed)
+    // samples of each case from the rounds so far
+    const caseRounds = new Map<BenchmarkCase, CaseRounds>()
+    // cases that failed in an earlier round are not run again
+    const failedCases = new Set<BenchmarkCase>()
+    try {
+      await beforeAll?.()
 
-    await afterAll?.()
-    reset()
+      for (let round = 0; round < Math.max(1, rounds) && running && !abort; round++) {
+        const order = rounds > 1 ? shuffle(tests, random) : tests
+        for (let i = 0; i < order.length; i++) {
+          const test = order[i]
+          if (failedCases.has(test)) continue
+          const record = caseRounds.get(test) ?? { samples: [], elapsed: 0, means: [] }
+          caseRounds.set(test, record)
+          samples = record.samples
+          totalms = samples.reduce((accum, ms) => accum + ms, 0)
+          // report only the first error of a case, since after often fails for the same reason
+          let error: CaseError | null = null
+          caseDeadline = caseTimeout > 0 ? performance.now() + caseTimeout : Infinity
+          try {
+            await attempt('before', undefined, () => test.before?.(test.name), timeoutOf('before'))
+            await runPreMeasure(test)
+            // the data is the same in every round, so it is only verified once
+            if (round === 0) await runVerify(test)
+            await runWarmup(test)
+            await sleep(delay)
+            const roundStart = record.samples.length
+            record.elapsed += await runCase(test, round)
+            if (running && !abort) {
+              record.means.push(
+                meanAndDeviation(rejectOutliers(record.samples.slice(roundStart), outliers).samples).mean,
+              )
+              if (round === Math.max(1, rounds) - 1) await report(test, record)
+            }
+          } catch (e) {
+            if (!(e instanceof CaseFailure)) throw e
+            error = e.error
+          }
+          try {
+            await attempt('after', undefined, () => test.after?.(test.name), timeoutOf('after'))
+          } catch (e) {
+            if (!(e instanceof CaseFailure)) throw e
+            error = error ?? e.error
+          }
+          totalms = 0
+          samples = []
+          if (error) {
+            failedCases.add(test)
+            await failed?.(test.name, error)
+          }
+          await sleep(delay)
+        }
+      }
+    } finally {
+      await afterAll?.()
+      reset()
+    }
   }
 
   return {
@@ -0,0 +1,96 @@
+import BenchmarkConfig from '../types/BenchmarkConfig'
+import BenchmarkStats from '../types/BenchmarkStats'
+import CaseError from '../types/CaseError'
+import { WorkerRequest, WorkerResponse } from '../types/WorkerMessage'
+
+/** Runs the test suite in a dedicated Web Worker. Mirrors the Benchmark interface, except that cases are added by key and generated inside the worker, since functions cannot be posted to a worker. */
+const WorkerBenchmark = ({
+  config,
+  cycle,
+  iteration,
+  preMeasureIteration,
+  verified,
+  failed,
+  unsupported,
+}: {
+  config: BenchmarkConfig
+  /** Callback invoked after all iterations of a case are run in the worker. */
+  cycle?: (name: string, stats: BenchmarkStats) => void
+  /** Callback invoked after a single iteration of a case is run in the worker. */
+  iteration?: (name: string, stats: { i: number; ms: number; mean: number }) => void
+  /** Callback invoked after a single iteration of a preMeasure is run in the worker. */
+  preMeasureIteration?: (name: string, stats: { i: number }) => void
+  /** Callback invoked after a case is verified in the worker. */
+  verified?: (name: string, mismatch?: string) => void
+  /** Callback invoked when a case throws in the worker. */
+  failed?: (name: string, error: CaseError) => void
+  /** Callback invoked for each case whose adapter is not available in a worker. The case is not run. */
+  unsupported?: (name: string) => void
+}) => {
+  const testKeys: string[] = []
+  let worker: Worker | null = null
+
+  /** Posts a typed message to the worker. */
+  const post = (message: WorkerRequest) => worker?.postMessage(message)
+
+  /** Terminates the worker. */
+  const terminate = () => {
+    worker?.terminate()
+    worker = null
+  }
+
+  const run = () =>
+    new Promise<void>((resolve, reject) => {
+      if (worker) return resolve()
+      worker = new Worker(new URL('../worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const message = e.data
+        if (message.type === 'iteration') {
+          iteration?.(message.name, message.stats)
+        } else if (message.type === 'preMeasureIteration') {
+          preMeasureIteration?.(message.name, message.stats)
+        } else if (message.type === 'cycle') {
+          cycle?.(message.name, message.stats)
+        } else if (message.type === 'verified') {
+          verified?.(message.name, message.mismatch)
+        } else if (message.type === 'failed') {
+          failed?.(message.name, message.error)
+        } else if (message.type === 'unsupported') {
+          unsupported?.(message.name)
+        } else if (message.type === 'done') {
+          terminate()
+          resolve()
+        } else if (message.type === 'error') {
+          terminate()
+          reject(new Error(message.message))
+        }
+      }
+      worker.onerror = e => {
+        terminate()
+        reject(new Error(e.message))
+      }
+      post({ type: 'run', config, testKeys: [...testKeys] })
+    })
+
+  return {
+    /** Cancels an in progress run. The worker finishes the current iteration, runs teardown, and resolves the run. */
+    cancel: (): void => {
+      post({ type: 'cancel' })
+    },
+
+    /** Clears all tests. */
+    clear: () => {
+      testKeys.length = 0
+    },
+
+    /** Adds a test by key. The test is generated inside the worker. */
+    add: (name: string) => {
+      testKeys.push(name)
+    },
+
+    /** Runs all tests in a new worker and measures performance. */
+    run,
+  }
+}
+
+export default WorkerBenchmark
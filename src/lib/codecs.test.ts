@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import PayloadType from '../types/PayloadType'
+import { compose, gzip, json, msgpack } from './codecs'
+import { generatePayload } from './payload'
+import { expectValue } from './verify'
+
+const payloadTypes: PayloadType[] = ['String', 'Uint8Array', 'ArrayBuffer', 'Blob', 'Object', 'Array', 'Date', 'Map']
+
+const codecs = [json, msgpack, gzip, compose(msgpack, gzip)]
+
+for (const codec of codecs) {
+  describe(codec.name, () => {
+    for (const type of payloadTypes) {
+      it(`round-trips ${type}`, async () => {
+        const payload = generatePayload({ type, size: 100, content: 'random', fields: 4, seed: 1 })
+        const decoded = await codec.decode(await codec.encode(payload))
+        assert.equal(expectValue(decoded, payload), undefined)
+        // Blobs are compared by size and type, so compare their content as well
+        if (payload instanceof Blob) {
+          assert.deepEqual(new Uint8Array(await decoded.arrayBuffer()), new Uint8Array(await payload.arrayBuffer()))
+        }
+      })
+    }
+
+    it('decodes a missing record as undefined', async () => {
+      assert.equal(await codec.decode(undefined), undefined)
+    })
+  })
+}
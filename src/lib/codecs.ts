@@ -0,0 +1,95 @@
+import { decode as msgpackDecode, encode as msgpackEncode, ExtensionCodec } from '@msgpack/msgpack'
+import Codec from '../types/Codec'
+import { deserialize, serialize } from './serialize'
+
+// Compression Streams are missing from the TypeScript DOM lib
+declare const CompressionStream: new (format: 'gzip') => TransformStream<Uint8Array, Uint8Array>
+declare const DecompressionStream: new (format: 'gzip') => TransformStream<Uint8Array, Uint8Array>
+
+// type tag stored in the first byte of gzipped values
+const BINARY = 0
+const JSON_VALUE = 1
+
+/** Pipes bytes through a transform stream and collects the output. */
+const pipeBytes = async (bytes: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer())
+
+/** The bytes and type of a Blob, read ahead of encoding since MessagePack extensions are encoded synchronously. */
+class BlobBytes {
+  constructor(public bytes: Uint8Array, public type: string) {}
+}
+
+/** MessagePack extensions for the payload types that MessagePack does not preserve. Uint8Array and Date are supported natively. */
+const extensionCodec = new ExtensionCodec()
+extensionCodec.register({
+  type: 0,
+  encode: value => (value instanceof ArrayBuffer ? new Uint8Array(value) : null),
+  decode: data => data.slice().buffer,
+})
+extensionCodec.register({
+  type: 1,
+  encode: value => (value instanceof Map ? msgpackEncode([...value], { extensionCodec }) : null),
+  decode: data => new Map(msgpackDecode(data, { extensionCodec }) as [unknown, unknown][]),
+})
+extensionCodec.register({
+  type: 2,
+  encode: value => (value instanceof BlobBytes ? msgpackEncode([value.bytes, value.type]) : null),
+  decode: data => {
+    const [bytes, type] = msgpackDecode(data) as [Uint8Array, string]
+    return new Blob([bytes], { type })
+  },
+})
+
+/** Serializes values as JSON strings. Binary values, Dates, and Maps are tagged so that they are preserved. */
+export const json: Codec = {
+  name: 'json',
+  encode: serialize,
+  decode: async value => deserialize(value),
+}
+
+/** Serializes values as MessagePack binary. All payload types are preserved, binary values without base64. */
+export const msgpack: Codec = {
+  name: 'msgpack',
+  encode: async value =>
+    msgpackEncode(
+      typeof Blob !== 'undefined' && value instanceof Blob
+        ? new BlobBytes(new Uint8Array(await value.arrayBuffer()), value.type)
+        : value,
+      { extensionCodec },
+    ),
+  decode: async value => (value === undefined ? undefined : msgpackDecode(value, { extensionCodec })),
+}
+
+/** Compresses values with gzip using CompressionStream. Uint8Arrays are compressed as-is. All other values are compressed as tagged JSON, so that they are preserved. */
+export const gzip: Codec = {
+  name: 'gzip',
+  encode: async value => {
+    const body = value instanceof Uint8Array ? value : new TextEncoder().encode(await serialize(value))
+    const bytes = new Uint8Array(body.length + 1)
+    bytes[0] = value instanceof Uint8Array ? BINARY : JSON_VALUE
+    bytes.set(body, 1)
+    return pipeBytes(bytes, new CompressionStream('gzip'))
+  },
+  decode: async value => {
+    if (value === undefined) return undefined
+    const bytes = await pipeBytes(value, new DecompressionStream('gzip'))
+    return bytes[0] === BINARY ? bytes.slice(1) : deserialize(new TextDecoder().decode(bytes.subarray(1)))
+  },
+}
+
+/** Composes codecs into a single codec. Values are encoded left to right and decoded right to left. */
+export const compose = (...codecs: Codec[]): Codec => ({
+  name: codecs.map(codec => codec.name).join('+'),
+  encode: async value => {
+    for (const codec of codecs) {
+      value = await codec.encode(value)
+    }
+    return value
+  },
+  decode: async value => {
+    for (const codec of [...codecs].reverse()) {
+      value = await codec.decode(value)
+    }
+    return value
+  },
+})
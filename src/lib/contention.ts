@@ -0,0 +1,215 @@
+import { dbname } from '../dbs/indexedDB'
+import ContentionEvents from '../types/ContentionEvents'
+import ContentionLoad from '../types/ContentionLoad'
+import ContentionMessage from '../types/ContentionMessage'
+
+/** Name of the BroadcastChannel shared by the benchmark page and its helpers. */
+const channelName = 'benchmark-contention'
+
+/** Query param that makes the app run as a contention helper instead of rendering the benchmark. */
+export const helperParam = 'contention-helper'
+
+/** Interval at which helpers report their stats in milliseconds. */
+const STATS_INTERVAL = 250
+
+/** Delay before a helper reconnects after closing its connection for a version change in milliseconds. */
+const RECONNECT_DELAY = 50
+
+/** Asynchronously waits for a number of milliseconds*/
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** Runs a single read or write transaction against the first object store of the database. Writes overwrite the first record with its own value, so the records seen by the benchmark are not changed. Resolves to false if no operation was run because there is no object store yet, or no record to overwrite. */
+const runOperation = (db: IDBDatabase, load: Exclude<ContentionLoad, 'off'>) =>
+  new Promise<boolean>((resolve, reject) => {
+    const storeName = db.objectStoreNames[0]
+    if (!storeName) {
+      // the benchmark has not created a store yet
+      setTimeout(() => resolve(false), RECONNECT_DELAY)
+      return
+    }
+    const tx = db.transaction(storeName, load === 'write' ? 'readwrite' : 'readonly')
+    const store = tx.objectStore(storeName)
+    // reads always run, writes only if there is a record to overwrite
+    let ran = load !== 'write'
+    if (load === 'write') {
+      const req = store.openCursor()
+      req.onsuccess = () => {
+        if (!req.result) return
+        req.result.update(req.result.value)
+        ran = true
+      }
+    } else {
+      store.getAll(undefined, 10)
+    }
+    tx.oncomplete = () => {
+      if (ran) {
+        resolve(true)
+      } else {
+        // the benchmark has not written a record yet
+        setTimeout(() => resolve(false), RECONNECT_DELAY)
+      }
+    }
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+/** Runs in a helper frame. Opens the benchmark database and runs read or write load against it while started. Closes its connection whenever the benchmark page upgrades or deletes the database, and reconnects after the change. */
+export const runContentionHelper = (id: string) => {
+  const channel = new BroadcastChannel(channelName)
+  let load: ContentionLoad = 'off'
+  let db: IDBDatabase | null = null
+  let ops = 0
+  let errors = 0
+  let versionchange = 0
+
+  /** Posts a typed message to the benchmark page. */
+  const post = (message: ContentionMessage) => channel.postMessage(message)
+
+  /** Opens the current version of the benchmark database. */
+  const open = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const openRequest = indexedDB.open(dbname)
+      openRequest.onerror = () => reject(openRequest.error)
+      openRequest.onsuccess = () => {
+        const connection = openRequest.result
+        connection.onversionchange = () => {
+          versionchange++
+          connection.close()
+          if (db === connection) db = null
+        }
+        resolve(connection)
+      }
+    })
+
+  /** Runs operations one after another until stopped. */
+  const loop = async () => {
+    while (load !== 'off') {
+      try {
+        if (!db) {
+          await sleep(RECONNECT_DELAY)
+          db = await open()
+        }
+        if (await runOperation(db, load)) {
+          ops++
+        }
+      } catch (e) {
+        errors++
+        await sleep(RECONNECT_DELAY)
+      }
+    }
+    db?.close()
+    db = null
+  }
+
+  const interval = setInterval(() => {
+    if (ops === 0 && errors === 0 && versionchange === 0) return
+    post({ type: 'stats', id, ops, errors, versionchange })
+    ops = 0
+    errors = 0
+    versionchange = 0
+  }, STATS_INTERVAL)
+
+  channel.onmessage = (e: MessageEvent<ContentionMessage>) => {
+    const message = e.data
+    if (message.type === 'start' && load === 'off') {
+      load = message.load
+      loop()
+    } else if (message.type === 'stop') {
+      load = 'off'
+    }
+  }
+
+  window.addEventListener('pagehide', () => {
+    clearInterval(interval)
+    load = 'off'
+    channel.close()
+  })
+
+  post({ type: 'ready', id })
+}
+
+/** Starts and stops helper frames that run load against the benchmark database while the suite runs on this page. Helpers are same-origin iframes that coordinate over a BroadcastChannel. */
+const Contention = ({
+  helpers = 2,
+  load,
+  timeout = 10000,
+}: {
+  /** Number of helper frames to open. */
+  helpers?: number
+  load: Exclude<ContentionLoad, 'off'>
+  /** Maximum time to wait for the helpers to load in milliseconds. */
+  timeout?: number
+}) => {
+  let channel: BroadcastChannel | null = null
+  let frames: HTMLIFrameElement[] = []
+  let events: Omit<ContentionEvents, 'blocked'> = { versionchange: 0, ops: 0, errors: 0 }
+
+  /** Opens the helper frames, waits until they are ready, and starts the load. */
+  const start = async () => {
+    if (channel) return
+    const ready = new Set<string>()
+    channel = new BroadcastChannel(channelName)
+
+    const allReady = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Only ${ready.size} of ${helpers} contention helpers loaded.`)),
+        timeout,
+      )
+      channel!.onmessage = (e: MessageEvent<ContentionMessage>) => {
+        const message = e.data
+        if (message.type === 'ready') {
+          ready.add(message.id)
+          if (ready.size === helpers) {
+            clearTimeout(timer)
+            resolve()
+          }
+        } else if (message.type === 'stats') {
+          events.ops += message.ops
+          events.errors += message.errors
+          events.versionchange += message.versionchange
+        }
+      }
+    })
+
+    frames = Array(helpers)
+      .fill(0)
+      .map((_, i) => {
+        const frame = document.createElement('iframe')
+        frame.src = `${location.pathname}?${helperParam}=${i}`
+        frame.style.display = 'none'
+        document.body.appendChild(frame)
+        return frame
+      })
+
+    try {
+      await allReady
+    } catch (e) {
+      stop()
+      throw e
+    }
+    channel.postMessage({ type: 'start', load } as ContentionMessage)
+  }
+
+  /** Stops the load and removes the helper frames. */
+  const stop = () => {
+    channel?.postMessage({ type: 'stop' } as ContentionMessage)
+    channel?.close()
+    channel = null
+    frames.forEach(frame => frame.remove())
+    frames = []
+  }
+
+  return {
+    start,
+    stop,
+
+    /** Returns the helper events since the last call and resets the counts. */
+    takeEvents: () => {
+      const eventsOld = events
+      events = { versionchange: 0, ops: 0, errors: 0 }
+      return eventsOld
+    },
+  }
+}
+
+export default Contention
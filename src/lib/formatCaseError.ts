@@ -0,0 +1,7 @@
+import CaseError from '../types/CaseError'
+
+/** Formats a case error as a single line, e.g. "QuotaExceededError in measure (iteration 42): ...". */
+const formatCaseError = ({ name, message, phase, iteration }: CaseError) =>
+  `${name} in ${phase}${iteration != null ? ` (iteration ${iteration})` : ''}: ${message}`
+
+export default formatCaseError
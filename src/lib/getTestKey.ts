@@ -0,0 +1,25 @@
+import keyValueBy from './keyValueBy'
+import TestSpec from '../types/TestSpec'
+
+/** Gets the key that the results, skipped state, and exports of a test are stored under. Uses the test id rather than its labels, since labels include config values such as the concurrency and durability. */
+const getTestKey = (dbname: string, test: Pick<TestSpec, 'id'>) => `${dbname}-${test.id}`
+
+/** Gets the key that a test was stored under before tests had ids. */
+export const getLegacyTestKey = (dbname: string, test: Pick<TestSpec, 'prefill' | 'measure'>) =>
+  `${dbname}-${test.prefill}-${test.measure}`
+
+/** Moves values stored under legacy test keys to the test keys of the same tests. Since legacy keys include config values, the tests must be generated with the config that the values were stored with. Keys that do not match a test are kept. */
+export const migrateTestKeys = <T>(
+  values: { [key: string]: T },
+  tests: { [dbname: string]: Pick<TestSpec, 'id' | 'prefill' | 'measure'>[] },
+): { [key: string]: T } => {
+  const testKeys = new Map<string, string>()
+  Object.entries(tests).forEach(([dbname, dbTests]) => {
+    dbTests.forEach(test => {
+      testKeys.set(getLegacyTestKey(dbname, test), getTestKey(dbname, test))
+    })
+  })
+  return keyValueBy(values, (key, value) => ({ [testKeys.get(key) ?? key]: value }))
+}
+
+export default getTestKey
@@ -0,0 +1,55 @@
+import RunExport from '../types/RunExport'
+import { migrateRunExport } from './runExport'
+
+/** Name of the history database. Separate from the benchmark databases so that history survives clearing them. */
+const dbname = 'benchmark-history'
+const storeName = 'runs'
+
+/** Opens the history database, creating the runs store on first use. Runs are keyed by timestamp. */
+const openHistory = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const openRequest = indexedDB.open(dbname, 1)
+    openRequest.onerror = () => reject(openRequest.error)
+    openRequest.onupgradeneeded = () => {
+      openRequest.result.createObjectStore(storeName, { keyPath: 'timestamp' })
+    }
+    openRequest.onsuccess = () => resolve(openRequest.result)
+  })
+
+/** Runs a single request against the runs store and closes the connection when the transaction completes. */
+const request = async <T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openHistory()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const req = createRequest(tx.objectStore(storeName))
+    tx.oncomplete = () => {
+      db.close()
+      resolve(req.result)
+    }
+    tx.onerror = () => {
+      db.close()
+      reject(tx.error)
+    }
+  })
+}
+
+/** Saves a finished run to the history. */
+export const saveRun = async (run: RunExport): Promise<void> => {
+  await request('readwrite', store => store.put(run))
+}
+
+/** Loads all saved runs, oldest first. Runs saved by older versions are migrated to the current version. */
+export const loadRuns = async (): Promise<RunExport[]> => {
+  const runs = await request('readonly', store => store.getAll())
+  return runs.map(migrateRunExport)
+}
+
+/** Deletes a single run from the history. */
+export const deleteRun = async (timestamp: string): Promise<void> => {
+  await request('readwrite', store => store.delete(timestamp))
+}
+
+/** Deletes all saved runs. */
+export const clearHistory = async (): Promise<void> => {
+  await request('readwrite', store => store.clear())
+}
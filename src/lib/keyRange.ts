@@ -0,0 +1,19 @@
+import { KeyRange, RecordKey } from '../types/Database'
+
+/** Compares two keys in IndexedDB order: numbers before strings, numbers numerically, strings by code unit. */
+export const compareKeys = (a: RecordKey, b: RecordKey) =>
+  typeof a !== typeof b ? (typeof a === 'number' ? -1 : 1) : a < b ? -1 : a > b ? 1 : 0
+
+/** Returns true if a key is within a key range. */
+export const inRange = (key: RecordKey, range?: KeyRange) => {
+  if (!range) return true
+  if (range.lower != null) {
+    const c = compareKeys(key, range.lower)
+    if (c < 0 || (c === 0 && range.lowerOpen)) return false
+  }
+  if (range.upper != null) {
+    const c = compareKeys(key, range.upper)
+    if (c > 0 || (c === 0 && range.upperOpen)) return false
+  }
+  return true
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import rejectOutliers from './outliers'
+
+const samples = [10, 11, 9, 10, 12, 10, 11, 9, 100]
+
+describe('rejectOutliers', () => {
+  it('keeps all samples with no filter', () => {
+    assert.deepEqual(rejectOutliers(samples, 'none'), { samples, rejected: 0 })
+  })
+
+  it('drops samples outside the IQR fences', () => {
+    assert.deepEqual(rejectOutliers(samples, 'iqr'), { samples: samples.slice(0, -1), rejected: 1 })
+  })
+
+  it('drops samples with a high modified z-score', () => {
+    assert.deepEqual(rejectOutliers(samples, 'mad'), { samples: samples.slice(0, -1), rejected: 1 })
+  })
+
+  it('keeps all samples if the MAD is 0', () => {
+    const constant = [5, 5, 5, 5, 5, 6]
+    assert.deepEqual(rejectOutliers(constant, 'mad'), { samples: constant, rejected: 0 })
+  })
+
+  it('keeps all samples if there are too few to filter', () => {
+    assert.deepEqual(rejectOutliers([1, 1, 100], 'iqr'), { samples: [1, 1, 100], rejected: 0 })
+  })
+})
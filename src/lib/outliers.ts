@@ -0,0 +1,37 @@
+import OutlierFilter from '../types/OutlierFilter'
+import { percentile } from './stats'
+
+/** Scale factor that makes the median absolute deviation a consistent estimator of the standard deviation of a normal distribution. */
+const MAD_SCALE = 1.4826
+
+/** Removes outliers from a list of samples. Returns the remaining samples in their original order and the number of samples that were dropped. */
+const rejectOutliers = (samples: number[], filter: OutlierFilter = 'none'): { samples: number[]; rejected: number } => {
+  if (filter === 'none' || samples.length < 4) return { samples, rejected: 0 }
+
+  const sorted = [...samples].sort((a, b) => a - b)
+  let lower: number
+  let upper: number
+
+  if (filter === 'iqr') {
+    // Tukey's fences
+    const q1 = percentile(sorted, 0.25)
+    const q3 = percentile(sorted, 0.75)
+    const iqr = q3 - q1
+    lower = q1 - 1.5 * iqr
+    upper = q3 + 1.5 * iqr
+  } else {
+    // modified z-score of 3.5 (Iglewicz and Hoaglin)
+    const median = percentile(sorted, 0.5)
+    const deviations = samples.map(ms => Math.abs(ms - median)).sort((a, b) => a - b)
+    const mad = percentile(deviations, 0.5) * MAD_SCALE
+    // if more than half the samples are identical, the MAD is 0 and every other sample would be rejected
+    if (mad === 0) return { samples, rejected: 0 }
+    lower = median - 3.5 * mad
+    upper = median + 3.5 * mad
+  }
+
+  const kept = samples.filter(ms => ms >= lower && ms <= upper)
+  return { samples: kept, rejected: samples.length - kept.length }
+}
+
+export default rejectOutliers
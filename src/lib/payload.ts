@@ -0,0 +1,95 @@
+import PayloadConfig, { PayloadContent } from '../types/PayloadConfig'
+import PayloadType from '../types/PayloadType'
+import seededRandom from './random'
+
+/** All payload types, in the order they are listed in the config. */
+export const payloadTypes: PayloadType[] = [
+  'String',
+  'Uint8Array',
+  'ArrayBuffer',
+  'Blob',
+  'Object',
+  'Array',
+  'Date',
+  'Map',
+]
+
+/** Number of distinct characters used for compressible content. */
+const COMPRESSIBLE_ALPHABET = 'abcd'
+
+/** Generates [size] bytes of the given content. */
+const generateBytes = (size: number, content: PayloadContent, random: () => number): Uint8Array => {
+  const bytes = new Uint8Array(size)
+  if (content === 'random') {
+    for (let i = 0; i < size; i++) {
+      bytes[i] = Math.floor(random() * 256)
+    }
+  } else if (content === 'compressible') {
+    for (let i = 0; i < size; i++) {
+      bytes[i] = COMPRESSIBLE_ALPHABET.charCodeAt(Math.floor(random() * COMPRESSIBLE_ALPHABET.length))
+    }
+  }
+  return bytes
+}
+
+/** Generates an ASCII string of [size] characters of the given content. */
+const generateString = (size: number, content: PayloadContent, random: () => number): string => {
+  if (content === 'zeros') return '0'.repeat(size)
+  const chars = Array(size)
+  for (let i = 0; i < size; i++) {
+    chars[i] =
+      content === 'random'
+        ? // printable ASCII, so the string is not compressed by any single-byte encoding
+          String.fromCharCode(32 + Math.floor(random() * 95))
+        : COMPRESSIBLE_ALPHABET[Math.floor(random() * COMPRESSIBLE_ALPHABET.length)]
+  }
+  return chars.join('')
+}
+
+/** Generates a value with the given shape, size, and content. The same config always generates the same value. */
+export const generatePayload = ({ type, size, content, fields, seed }: PayloadConfig) => {
+  const random = seededRandom(seed)
+  const n = Math.max(1, fields)
+  const fieldSize = Math.ceil(size / n)
+
+  switch (type) {
+    case 'String':
+      return generateString(size, content, random)
+    case 'Uint8Array':
+      return generateBytes(size, content, random)
+    case 'ArrayBuffer':
+      return generateBytes(size, content, random).buffer
+    case 'Blob':
+      return new Blob([generateBytes(size, content, random)])
+    case 'Object':
+      // one level of nesting per field, to exercise the structured clone of nested objects
+      return Object.fromEntries(
+        Array(n)
+          .fill(0)
+          .map((_, i) => [`field${i}`, { value: generateString(fieldSize, content, random) }]),
+      )
+    case 'Array':
+      return Array(n)
+        .fill(0)
+        .map((_, i) => ({ id: i, value: generateString(fieldSize, content, random) }))
+    case 'Date':
+      // an object with one Date field per 8 bytes, since Dates are stored as 8-byte time values
+      return Object.fromEntries(
+        Array(Math.max(1, Math.ceil(size / 8)))
+          .fill(0)
+          .map((_, i) => [`date${i}`, new Date(content === 'zeros' ? 0 : Math.floor(random() * 4102444800000))]),
+      )
+    case 'Map':
+      return new Map(
+        Array(n)
+          .fill(0)
+          .map((_, i) => [`key${i}`, generateString(fieldSize, content, random)]),
+      )
+    default:
+      throw new Error('Unsupported data type: ' + type)
+  }
+}
+
+/** Formats a payload config as a short label, e.g. Uint8Array(1000, random) or Object(1000, 10 fields, zeros). */
+export const formatPayload = ({ type, size, content, fields }: PayloadConfig) =>
+  `${type}(${size}${type === 'Object' || type === 'Array' || type === 'Map' ? `, ${fields} fields` : ''}, ${content})`
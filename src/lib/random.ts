@@ -0,0 +1,16 @@
+/** Creates a seeded pseudorandom number generator (mulberry32) that returns numbers in [0, 1). The same seed always generates the same sequence. */
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Calculates a random integer from 0 to n - 1. Not seeded. */
+export const randRange = (n: number) => Math.floor(Math.random() * n)
+
+export default seededRandom
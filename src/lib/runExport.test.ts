@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { migrateRunExport, parseRunExport } from './runExport'
+
+const payload = { type: 'Uint8Array', size: 1000, content: 'zeros', fields: 10, seed: 1 }
+
+const runExport = {
+  version: 3,
+  timestamp: '2024-01-01T00:00:00.000Z',
+  config: { payload, total: 100, limit: 10, iterations: 10 },
+  environment: { userAgent: 'test' },
+  skipped: {},
+  results: { 'memory-get': { mean: 1 } },
+}
+
+describe('migrateRunExport', () => {
+  it('leaves a current export unchanged', () => {
+    assert.deepEqual(migrateRunExport(runExport), runExport)
+  })
+
+  it('migrates a version 1 payloadType label to a payload config', () => {
+    const { payload: _, ...config } = runExport.config
+    const migrated = migrateRunExport({
+      ...runExport,
+      version: 1,
+      config: { ...config, payloadType: 'Uint8Array(1000)' },
+    })
+    assert.equal(migrated.version, 3)
+    assert.deepEqual(migrated.config.payload, payload)
+    assert.equal('payloadType' in migrated.config, false)
+  })
+
+  it('rejects an unrecognized version 1 payloadType', () => {
+    const { payload: _, ...config } = runExport.config
+    assert.throws(
+      () => migrateRunExport({ ...runExport, version: 1, config: { ...config, payloadType: 'Uint8Array' } }),
+      /Unrecognized payload/,
+    )
+  })
+
+  it('moves version 2 results and skipped cases from label keys to test keys', () => {
+    const migrated = migrateRunExport({
+      ...runExport,
+      version: 2,
+      skipped: { 'indexedDB--bulkGet': true },
+      results: { 'memory--get': { mean: 1 }, 'memory-unknown': { mean: 2 } },
+    })
+    assert.equal(migrated.version, 3)
+    assert.deepEqual(migrated.skipped, { 'indexedDB-bulk-get': true })
+    assert.deepEqual(migrated.results, { 'memory-get': { mean: 1 }, 'memory-unknown': { mean: 2 } })
+  })
+})
+
+describe('parseRunExport', () => {
+  it('rejects JSON that is not an export', () => {
+    assert.throws(() => parseRunExport(JSON.stringify({ version: 4, results: {}, config: {} })), /Unrecognized/)
+    assert.throws(() => parseRunExport(JSON.stringify({ version: 3, config: {} })), /Unrecognized/)
+  })
+})
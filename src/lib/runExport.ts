@@ -0,0 +1,159 @@
+import BenchmarkResult from '../types/BenchmarkResult'
+import generateTests from '../tests'
+import formatCaseError from './formatCaseError'
+import { migrateTestKeys } from './getTestKey'
+import { formatPayload } from './payload'
+import RunExport from '../types/RunExport'
+
+/** Columns of the CSV export, in order. */
+const csvColumns = [
+  'mean',
+  'median',
+  'p90',
+  'p95',
+  'p99',
+  'min',
+  'max',
+  'deviation',
+  'moe',
+  'rme',
+  'samples',
+  'rejected',
+  'throughput',
+  'concurrency',
+  'rounds',
+  'roundDeviation',
+] as const
+
+/** Escapes a value for a CSV cell. */
+const csvCell = (value: unknown): string => {
+  const s = value == null ? '' : String(value)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/** Creates a snapshot of the current run with config and environment metadata. */
+export const createRunExport = async ({
+  config,
+  results,
+  skipped,
+}: Pick<RunExport, 'config' | 'results' | 'skipped'>): Promise<RunExport> => {
+  const storage = await navigator.storage?.estimate?.().catch(() => undefined)
+  return {
+    version: 3,
+    timestamp: new Date().toISOString(),
+    config,
+    environment: {
+      userAgent: navigator.userAgent,
+      hardwareConcurrency: navigator.hardwareConcurrency,
+      storage: storage ? { quota: storage.quota, usage: storage.usage } : undefined,
+    },
+    skipped,
+    results,
+  }
+}
+
+/** Migrates a version 1 export to version 2. Early version 1 exports stored a payloadType label such as 'Uint8Array(1000)' instead of a payload config. Those payloads were always zero-filled. */
+const migratePayload = (runExport: any) => {
+  const { payloadType, ...config } = runExport.config
+  if (config.payload) return { ...runExport, version: 2, config }
+  const match = typeof payloadType === 'string' && payloadType.match(/^(\w+)\((\d+)\)$/)
+  if (!match) {
+    throw new Error('Unrecognized payload in benchmark export.')
+  }
+  return {
+    ...runExport,
+    version: 2,
+    config: {
+      ...config,
+      payload: { type: match[1], size: parseInt(match[2], 10), content: 'zeros', fields: 10, seed: 1 },
+    },
+  }
+}
+
+/** Migrates a version 2 export to version 3. Version 2 exports keyed cases by `${dbname}-${prefill}-${measure}`, so the tests are generated with the config of the export to map the labels to test ids. User-defined scenarios are not part of the config, so their cases keep the legacy key. */
+const migrateKeys = (runExport: any): RunExport => {
+  const tests = generateTests(runExport.config)
+  return {
+    ...runExport,
+    version: 3,
+    skipped: migrateTestKeys(runExport.skipped || {}, tests),
+    results: migrateTestKeys(runExport.results, tests),
+  }
+}
+
+/** Migrates an export of any version to the current version. */
+export const migrateRunExport = (runExport: any): RunExport => {
+  const v2 = runExport.version === 1 ? migratePayload(runExport) : runExport
+  return v2.version === 2 ? migrateKeys(v2) : v2
+}
+
+/** Parses a JSON run export. Older versions are migrated to the current version. Throws if the JSON is not a recognized export. */
+export const parseRunExport = (json: string): RunExport => {
+  const runExport = JSON.parse(json)
+  if (
+    ![1, 2, 3].includes(runExport?.version) ||
+    typeof runExport.results !== 'object' ||
+    typeof runExport.config !== 'object'
+  ) {
+    throw new Error('Unrecognized benchmark export format.')
+  }
+  return migrateRunExport(runExport)
+}
+
+/** Serializes a run export as a CSV with one row per case. Run metadata is repeated in each row so the file can be concatenated with other runs. */
+export const toCsv = (runExport: RunExport): string => {
+  const header = [
+    'key',
+    ...csvColumns,
+    'ci_lower',
+    'ci_upper',
+    'mismatch',
+    'error',
+    'skipped',
+    'payload',
+    'seed',
+    'total',
+    'limit',
+    'iterations',
+    'durability',
+    'concurrencyConfig',
+    'orderSeed',
+    'timestamp',
+    'userAgent',
+  ]
+  const keys = Object.keys({ ...runExport.results, ...runExport.skipped })
+  const rows = keys.map(key => {
+    const result: BenchmarkResult = runExport.results[key] || {}
+    return [
+      key,
+      ...csvColumns.map(column => result[column]),
+      result.ci?.[0],
+      result.ci?.[1],
+      result.mismatch,
+      result.error && formatCaseError(result.error),
+      !!runExport.skipped[key],
+      formatPayload(runExport.config.payload),
+      runExport.config.payload.seed,
+      runExport.config.total,
+      runExport.config.limit,
+      runExport.config.iterations,
+      runExport.config.durability,
+      runExport.config.concurrency,
+      runExport.config.orderSeed,
+      runExport.timestamp,
+      runExport.environment.userAgent,
+    ]
+  })
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n'
+}
+
+/** Triggers a browser download of a text file. */
+export const download = (filename: string, content: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  // revoking the URL synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url))
+}
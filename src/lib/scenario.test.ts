@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseScenarios, validateScenario } from './scenario'
+
+const scenario = {
+  name: 'by index',
+  prefill: { records: 100, stores: 1, indexes: [{ keyPath: 'category', distinct: 10 }] },
+  operation: { method: 'getAllByIndex', keys: 'sequential', index: 'category' },
+}
+
+describe('validateScenario', () => {
+  it('accepts a valid scenario', () => {
+    assert.equal(validateScenario(scenario, 0), scenario)
+  })
+
+  it('rejects a scenario without a name', () => {
+    assert.throws(() => validateScenario({ ...scenario, name: '' }, 0), /Scenario 1 must have a name/)
+  })
+
+  it('rejects invalid prefill counts', () => {
+    assert.throws(
+      () => validateScenario({ ...scenario, prefill: { ...scenario.prefill, records: -1 } }, 0),
+      /prefill.records/,
+    )
+    assert.throws(
+      () => validateScenario({ ...scenario, prefill: { ...scenario.prefill, stores: 0 } }, 0),
+      /prefill.stores/,
+    )
+  })
+
+  it('rejects an unknown method', () => {
+    assert.throws(
+      () => validateScenario({ ...scenario, operation: { ...scenario.operation, method: 'getMany' } }, 0),
+      /operation.method/,
+    )
+  })
+
+  it('rejects getAllByIndex without indexes', () => {
+    const { index, ...operation } = scenario.operation
+    assert.throws(
+      () => validateScenario({ ...scenario, prefill: { records: 100, stores: 1 }, operation }, 0),
+      /getAllByIndex requires at least one index/,
+    )
+  })
+
+  it('rejects an index that is not declared in prefill.indexes', () => {
+    assert.throws(
+      () => validateScenario({ ...scenario, operation: { ...scenario.operation, index: 'missing' } }, 0),
+      /operation.index/,
+    )
+    assert.throws(
+      () => validateScenario({ ...scenario, operation: { ...scenario.operation, index: 1 } }, 0),
+      /operation.index/,
+    )
+  })
+})
+
+describe('parseScenarios', () => {
+  it('rejects duplicate names', () => {
+    assert.throws(() => parseScenarios(JSON.stringify([scenario, scenario])), /Duplicate scenario name: by index/)
+  })
+
+  it('rejects JSON that is not an array', () => {
+    assert.throws(() => parseScenarios('{}'), /must be a JSON array/)
+  })
+})
@@ -0,0 +1,261 @@
+import Database, { RecordKey } from '../types/Database'
+import Scenario, { ScenarioMethod } from '../types/Scenario'
+import TestSpec from '../types/TestSpec'
+import { randRange } from './random'
+import { expectLength, expectValue, isEqual } from './verify'
+
+/** Prefill label of scenario cases in the results table. */
+export const scenarioPrefill = 'scenario'
+
+const methods: ScenarioMethod[] = [
+  'get',
+  'bulkGet',
+  'getAll',
+  'getAllKeys',
+  'getAllByIndex',
+  'set',
+  'bulkSet',
+  'put',
+  'delete',
+  'bulkDelete',
+  'clearStore',
+]
+
+/** Methods that write to the database. */
+const writeMethods: ScenarioMethod[] = ['set', 'bulkSet', 'put', 'delete', 'bulkDelete', 'clearStore']
+
+/** Optional Database methods that each method requires. */
+const requiredMethods: { [method in ScenarioMethod]: (keyof Database)[] } = {
+  get: [],
+  bulkGet: [],
+  getAll: ['getAll'],
+  getAllKeys: ['getAllKeys'],
+  getAllByIndex: ['getAllByIndex'],
+  set: [],
+  bulkSet: [],
+  put: ['put'],
+  delete: ['delete'],
+  bulkDelete: ['bulkDelete'],
+  clearStore: ['clearStore'],
+}
+
+/** Methods that operate on [bulk] records per iteration. */
+const bulkMethods: ScenarioMethod[] = ['bulkGet', 'bulkSet', 'bulkDelete']
+
+/** Returns true if the value is a non-negative integer. */
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+
+/** Validates a single scenario. Throws an error describing the first problem found. */
+export const validateScenario = (scenario: any, i: number): Scenario => {
+  const label = `Scenario ${i + 1}${scenario?.name ? ` (${scenario.name})` : ''}`
+  if (typeof scenario !== 'object' || scenario === null) throw new Error(`${label} must be an object.`)
+  if (typeof scenario.name !== 'string' || !scenario.name) throw new Error(`${label} must have a name.`)
+  if (!isCount(scenario.prefill?.records)) throw new Error(`${label}: prefill.records must be a non-negative integer.`)
+  if (!isCount(scenario.prefill?.stores) || scenario.prefill.stores < 1) {
+    throw new Error(`${label}: prefill.stores must be a positive integer.`)
+  }
+  const indexes = scenario.prefill.indexes ?? []
+  if (
+    !Array.isArray(indexes) ||
+    indexes.some((index: any) => typeof index?.keyPath !== 'string' || !isCount(index.distinct) || index.distinct < 1)
+  ) {
+    throw new Error(`${label}: prefill.indexes must be a list of { keyPath: string, distinct: number }.`)
+  }
+  if (!methods.includes(scenario.operation?.method)) {
+    throw new Error(`${label}: operation.method must be one of ${methods.join(', ')}.`)
+  }
+  if (scenario.operation.keys !== 'sequential' && scenario.operation.keys !== 'random') {
+    throw new Error(`${label}: operation.keys must be sequential or random.`)
+  }
+  if (scenario.operation.bulk != null && (!isCount(scenario.operation.bulk) || scenario.operation.bulk < 1)) {
+    throw new Error(`${label}: operation.bulk must be a positive integer.`)
+  }
+  if (scenario.operation.method === 'getAllByIndex' && indexes.length === 0) {
+    throw new Error(`${label}: getAllByIndex requires at least one index in prefill.indexes.`)
+  }
+  if (
+    scenario.operation.index != null &&
+    (typeof scenario.operation.index !== 'string' ||
+      !indexes.some((index: any) => index.keyPath === scenario.operation.index))
+  ) {
+    throw new Error(`${label}: operation.index must be the keyPath of an index in prefill.indexes.`)
+  }
+  if (scenario.mode != null && scenario.mode !== 'readonly' && scenario.mode !== 'readwrite') {
+    throw new Error(`${label}: mode must be readonly or readwrite.`)
+  }
+  return scenario
+}
+
+/** Parses and validates a JSON list of scenarios. Throws an error describing the first problem found. */
+export const parseScenarios = (json: string): Scenario[] => {
+  const scenarios = JSON.parse(json)
+  if (!Array.isArray(scenarios)) throw new Error('Scenarios must be a JSON array.')
+  const validated = scenarios.map(validateScenario)
+  const names = new Set<string>()
+  validated.forEach(scenario => {
+    if (names.has(scenario.name)) throw new Error(`Duplicate scenario name: ${scenario.name}`)
+    names.add(scenario.name)
+  })
+  return validated
+}
+
+/** Converts a scenario into a test for the given db. */
+export const scenarioToTest = (db: Database, scenario: Scenario, payload: any): TestSpec => {
+  const { records, stores } = scenario.prefill
+  const indexes = scenario.prefill.indexes ?? []
+  const { method, keys: keySelection } = scenario.operation
+  const bulk = bulkMethods.includes(method) ? scenario.operation.bulk ?? 1 : 1
+  const mode = scenario.mode ?? 'readonly'
+  const storeNames = Object.keys(Array(stores).fill(0))
+  const indexName = scenario.operation.index ?? indexes[0]?.keyPath
+
+  /** Generates the value of the nth record of a store. Records are wrapped in an object with index properties if there are indexes. */
+  const value = (n: number) =>
+    indexes.length === 0
+      ? payload
+      : indexes.reduce((accum, { keyPath, distinct }) => ({ ...accum, [keyPath]: n % distinct }), { payload })
+
+  /** Selects the store of an iteration. */
+  const selectStore = (i: number) => storeNames[keySelection === 'random' ? randRange(stores) : i % stores]
+
+  /** Selects [bulk] existing keys of an iteration. */
+  const selectKeys = (i: number): RecordKey[] =>
+    Array(bulk)
+      .fill(0)
+      .map((_, j) =>
+        (keySelection === 'random' ? randRange(records) : (i * bulk + j) % Math.max(records, 1)).toString(),
+      )
+
+  /** Generates [bulk] new keys of an iteration that do not collide with prefilled keys. */
+  const newKeys = (i: number): RecordKey[] =>
+    Array(bulk)
+      .fill(0)
+      .map((_, j) => (records + i * bulk + j).toString())
+
+  /** Sets the prefilled records of a store. */
+  const fillStore = (storeName: string) => {
+    const keys = Object.keys(Array(records).fill(0))
+    return db.bulkSet(
+      storeName,
+      keys,
+      keys.map((_, n) => value(n)),
+    )
+  }
+
+  // store cleared by each clearStore iteration, so that it can be refilled in postMeasure
+  const clearedStores = new Map<number, string>()
+
+  const prefill = async () => {
+    await db.createStore(storeNames)
+    for (const index of indexes) {
+      for (const storeName of storeNames) {
+        await db.createIndex?.(storeName, index.keyPath)
+      }
+    }
+    const setStoreNames = storeNames.flatMap(storeName => Array(records).fill(storeName))
+    const keys = setStoreNames.map((_, n) => (n % records).toString())
+    await db.bulkSet(
+      setStoreNames,
+      keys,
+      keys.map((_, n) => value(n % records)),
+    )
+  }
+
+  const measure = async (i: number) => {
+    const storeName = selectStore(i)
+    switch (method) {
+      case 'get':
+        return db.get(storeName, selectKeys(i)[0], mode)
+      case 'bulkGet':
+        return db.bulkGet(storeName, selectKeys(i), mode)
+      case 'getAll':
+        return db.getAll?.(storeName, mode)
+      case 'getAllKeys':
+        return db.getAllKeys?.(storeName, undefined, undefined, mode)
+      case 'getAllByIndex': {
+        const distinct = indexes.find(index => index.keyPath === indexName)?.distinct ?? 1
+        const indexKey = keySelection === 'random' ? randRange(distinct) : i % distinct
+        return db.getAllByIndex?.(storeName, indexName, indexKey, mode)
+      }
+      case 'set':
+        return db.set(storeName, newKeys(i)[0], value(records + i))
+      case 'bulkSet': {
+        const keys = newKeys(i)
+        return db.bulkSet(
+          storeName,
+          keys,
+          keys.map((_, j) => value(records + i * bulk + j)),
+        )
+      }
+      case 'put':
+        return db.put?.(storeName, selectKeys(i)[0], value(i))
+      case 'delete':
+        return db.delete?.(storeName, selectKeys(i)[0])
+      case 'bulkDelete':
+        return db.bulkDelete?.(storeName, selectKeys(i))
+      case 'clearStore':
+        clearedStores.set(i, storeName)
+        return db.clearStore?.(storeName)
+    }
+  }
+
+  /** Checks the result of a read method for the first iteration against the prefilled values. Write methods are not verified. */
+  const verify = async (): Promise<string | undefined> => {
+    if (records === 0) return
+    const storeName = storeNames[0]
+    switch (method) {
+      case 'get': {
+        const key = selectKeys(0)[0]
+        return expectValue(await db.get(storeName, key, mode), value(+key))
+      }
+      case 'bulkGet': {
+        const keys = selectKeys(0)
+        const values = await db.bulkGet(storeName, keys, mode)
+        const mismatch = expectLength(values, keys.length)
+        if (mismatch) return mismatch
+        const i = keys.findIndex((key, j) => !isEqual(values[j], value(+key)))
+        return i === -1 ? undefined : expectValue(values[i], value(+keys[i]), `values[${i}]`)
+      }
+      case 'getAll':
+        return expectLength(await db.getAll!(storeName, mode), records)
+      case 'getAllByIndex': {
+        const distinct = indexes.find(index => index.keyPath === indexName)?.distinct ?? 1
+        // records n with n % distinct === 0
+        return expectLength(await db.getAllByIndex!(storeName, indexName, 0, mode), Math.ceil(records / distinct))
+      }
+    }
+  }
+
+  const write = writeMethods.includes(method)
+  return {
+    id: `scenario-${scenario.name}`,
+    prefill: scenarioPrefill,
+    measure: scenario.name,
+    tags: [
+      write ? 'write' : 'read',
+      ...(bulk > 1 ? ['bulk' as const] : []),
+      ...(indexes.length > 0 ? ['index' as const] : []),
+      ...(stores > 1 ? ['multi-store' as const] : []),
+    ],
+    requires: [...(indexes.length > 0 ? ['createIndex' as const] : []), ...requiredMethods[method]],
+    write,
+    spec: {
+      bulk: bulk > 1 ? bulk : undefined,
+      before: prefill,
+      measure: async i => {
+        await measure(i)
+      },
+      // refill the cleared store so that every iteration clears [records] records
+      postMeasure:
+        method === 'clearStore'
+          ? async i => {
+              const storeName = clearedStores.get(i)
+              clearedStores.delete(i)
+              if (storeName) await fillStore(storeName)
+            }
+          : undefined,
+      verify,
+      after: db.clear,
+    },
+  }
+}
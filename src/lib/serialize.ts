@@ -0,0 +1,57 @@
+/** Encodes bytes as base64, since JSON cannot represent binary data. */
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/** Decodes a base64 string into a Uint8Array. */
+export const fromBase64 = (base64: string) => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/** Serializes a value to JSON, preserving the payload types that JSON cannot represent: Uint8Array, ArrayBuffer, Date, Map, and a top-level Blob. Each is stored as an object with a single $-prefixed type key. */
+export const serialize = async (value: any): Promise<string> => {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    const bytes = new Uint8Array(await value.arrayBuffer())
+    return JSON.stringify({ $Blob: toBase64(bytes), type: value.type })
+  }
+  return JSON.stringify(value, function (key, value) {
+    // Date.toJSON has already been called on value, so check the original property
+    const original = this[key]
+    return original instanceof Uint8Array
+      ? { $Uint8Array: toBase64(original) }
+      : original instanceof ArrayBuffer
+      ? { $ArrayBuffer: toBase64(new Uint8Array(original)) }
+      : original instanceof Date
+      ? { $Date: original.getTime() }
+      : original instanceof Map
+      ? { $Map: [...original] }
+      : value
+  })
+}
+
+/** Deserializes a value serialized with serialize. Resolves null to undefined, since a missing record is read as null. */
+export const deserialize = (json: string | null | undefined): any =>
+  json == null
+    ? undefined
+    : JSON.parse(json, (key, value) =>
+        value?.$Uint8Array != null
+          ? fromBase64(value.$Uint8Array)
+          : value?.$ArrayBuffer != null
+          ? fromBase64(value.$ArrayBuffer).buffer
+          : value?.$Date != null
+          ? new Date(value.$Date)
+          : value?.$Map != null
+          ? new Map(value.$Map)
+          : value?.$Blob != null
+          ? new Blob([fromBase64(value.$Blob)], { type: value.type })
+          : value,
+      )
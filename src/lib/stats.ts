@@ -0,0 +1,54 @@
+import BenchmarkStats from '../types/BenchmarkStats'
+
+/** Two-tailed Student's t critical values for a 95% confidence level, indexed by degrees of freedom (1–30). */
+const tTable = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+]
+
+/** Returns the 95% two-tailed t critical value for the given degrees of freedom. Falls back to the normal approximation for large samples. */
+const tCritical = (df: number) => (df < 1 ? 0 : df <= tTable.length ? tTable[df - 1] : 1.96)
+
+/** Calculates the p-th percentile (0–1) of a sorted array using linear interpolation between closest ranks. */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0
+  const rank = (sorted.length - 1) * p
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+/** Calculates the mean and sample standard deviation (Bessel's correction) of a list of numbers. */
+export const meanAndDeviation = (values: number[]) => {
+  const n = values.length
+  const mean = n > 0 ? values.reduce((accum, value) => accum + value, 0) / n : 0
+  const variance = n > 1 ? values.reduce((accum, value) => accum + (value - mean) ** 2, 0) / (n - 1) : 0
+  return { mean, deviation: Math.sqrt(variance) }
+}
+
+/** Calculates summary statistics for a list of samples in milliseconds. The number of rejected outliers is passed through as-is. */
+const stats = (samples: number[], rejected = 0): BenchmarkStats => {
+  const n = samples.length
+  const sorted = [...samples].sort((a, b) => a - b)
+  const { mean, deviation } = meanAndDeviation(samples)
+  const sem = n > 0 ? deviation / Math.sqrt(n) : 0
+  const moe = sem * tCritical(n - 1)
+
+  return {
+    mean,
+    median: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    min: n > 0 ? sorted[0] : 0,
+    max: n > 0 ? sorted[n - 1] : 0,
+    deviation,
+    moe,
+    rme: mean ? (moe / mean) * 100 : 0,
+    ci: [mean - moe, mean + moe],
+    samples: n,
+    rejected,
+  }
+}
+
+export default stats
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseSweepValues, sweepCombinations } from './sweep'
+
+describe('parseSweepValues', () => {
+  it('parses comma-separated values in ascending order without duplicates', () => {
+    assert.deepEqual(parseSweepValues('1000, 100,, 1000 ,10'), [10, 100, 1000])
+  })
+
+  it('expands arithmetic ranges', () => {
+    assert.deepEqual(parseSweepValues('1000..5000+1000'), [1000, 2000, 3000, 4000, 5000])
+    assert.deepEqual(parseSweepValues('1..3'), [1, 2, 3])
+  })
+
+  it('expands geometric ranges', () => {
+    assert.deepEqual(parseSweepValues('10..100000*10'), [10, 100, 1000, 10000, 100000])
+  })
+
+  it('rejects invalid values and steps', () => {
+    assert.throws(() => parseSweepValues('abc'), /Invalid value: abc/)
+    assert.throws(() => parseSweepValues('-5'), /Invalid value/)
+    assert.throws(() => parseSweepValues('1..10+0'), /Invalid range step/)
+    assert.throws(() => parseSweepValues('0..10*2'), /Invalid range step/)
+    assert.throws(() => parseSweepValues('1..10*1'), /Invalid range step/)
+  })
+
+  it('rejects values below the minimum of the param', () => {
+    assert.throws(() => parseSweepValues('10, 0', 'limit'), /Invalid limit value: 0/)
+    assert.throws(() => parseSweepValues('0..2', 'limit'), /Invalid limit value: 0/)
+    assert.deepEqual(parseSweepValues('0, 10', 'total'), [0, 10])
+  })
+
+  it('rejects too many values', () => {
+    assert.throws(() => parseSweepValues('1..1000000'), /Too many values/)
+  })
+})
+
+describe('sweepCombinations', () => {
+  it('generates every combination of the params with values', () => {
+    assert.deepEqual(sweepCombinations({ total: [10, 100], limit: [1, 2], size: [] }), [
+      { total: 10, limit: 1 },
+      { total: 10, limit: 2 },
+      { total: 100, limit: 1 },
+      { total: 100, limit: 2 },
+    ])
+  })
+})
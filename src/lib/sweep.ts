@@ -0,0 +1,45 @@
+import SweepParam from '../types/SweepParam'
+
+/** Maximum number of values a single sweep param can expand to, to guard against typos like 1..1000000+1. */
+const MAX_VALUES = 100
+
+/** Minimum value of each param. limit divides the total into pages, so it must be positive. */
+const minValues: { [param in SweepParam]: number } = { total: 0, limit: 1, size: 0 }
+
+/** Parses a list of sweep values. Accepts comma-separated integers and ranges, e.g. "100, 1000, 10000", "1000..5000+1000" (arithmetic), or "10..100000*10" (geometric). If a param is given, values below its minimum are rejected. Throws an error describing the first invalid value. */
+export const parseSweepValues = (text: string, param?: SweepParam): number[] => {
+  const values = text
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part)
+    .flatMap(part => {
+      const range = part.match(/^(\d+)\s*\.\.\s*(\d+)\s*(?:([+*])\s*(\d+))?$/)
+      if (range) {
+        const [, start, end, op = '+', step = '1'] = range
+        const [a, b, n] = [parseInt(start, 10), parseInt(end, 10), parseInt(step, 10)]
+        if (n < 1 || (op === '*' && (n < 2 || a < 1))) throw new Error(`Invalid range step: ${part}`)
+        const expanded: number[] = []
+        for (let value = a; value <= b && expanded.length <= MAX_VALUES; value = op === '*' ? value * n : value + n) {
+          expanded.push(value)
+        }
+        return expanded
+      }
+      if (!/^\d+$/.test(part)) throw new Error(`Invalid value: ${part}`)
+      return [parseInt(part, 10)]
+    })
+  if (values.length > MAX_VALUES) throw new Error(`Too many values (max ${MAX_VALUES}).`)
+  const min = param ? minValues[param] : 0
+  const invalid = values.find(value => value < min)
+  if (invalid != null) throw new Error(`Invalid ${param} value: ${invalid}. Must be at least ${min}.`)
+  return [...new Set(values)].sort((a, b) => a - b)
+}
+
+/** Generates every combination of the sweep values. Params without values are left out of the combinations. */
+export const sweepCombinations = (values: { [param in SweepParam]?: number[] }) =>
+  (Object.entries(values) as [SweepParam, number[]][])
+    .filter(([, list]) => list.length > 0)
+    .reduce<{ [param in SweepParam]?: number }[]>(
+      (combinations, [param, list]) =>
+        combinations.flatMap(combination => list.map(value => ({ ...combination, [param]: value }))),
+      [{}],
+    )
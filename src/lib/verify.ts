@@ -0,0 +1,64 @@
+/** Compares two byte arrays. */
+const bytesEqual = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i])
+
+/** Deep equality for the payload types the benchmark stores: primitives, Uint8Array, ArrayBuffer, Blob, Date, Map, arrays, and plain objects. Blobs are compared by size and type since their content can only be read asynchronously. */
+export const isEqual = (actual: any, expected: any): boolean => {
+  if (actual === expected) return true
+  if (actual == null || expected == null || typeof actual !== 'object' || typeof expected !== 'object') return false
+  if (expected instanceof Uint8Array) return actual instanceof Uint8Array && bytesEqual(actual, expected)
+  if (expected instanceof ArrayBuffer) {
+    return actual instanceof ArrayBuffer && bytesEqual(new Uint8Array(actual), new Uint8Array(expected))
+  }
+  if (typeof Blob !== 'undefined' && expected instanceof Blob) {
+    return actual instanceof Blob && actual.size === expected.size && actual.type === expected.type
+  }
+  if (expected instanceof Date) return actual instanceof Date && actual.getTime() === expected.getTime()
+  if (expected instanceof Map) {
+    return (
+      actual instanceof Map &&
+      actual.size === expected.size &&
+      [...expected].every(([key, value]) => actual.has(key) && isEqual(actual.get(key), value))
+    )
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, i) => isEqual(actual[i], value))
+    )
+  }
+  const keys = Object.keys(expected)
+  return Object.keys(actual).length === keys.length && keys.every(key => isEqual(actual[key], expected[key]))
+}
+
+/** Describes a value in a mismatch message. */
+const describe = (value: any) =>
+  value === undefined
+    ? 'undefined'
+    : value === null
+    ? 'null'
+    : Array.isArray(value)
+    ? `Array(${value.length})`
+    : typeof value === 'object'
+    ? value.constructor?.name ?? 'Object'
+    : JSON.stringify(value)
+
+/** Returns a mismatch message if the value does not equal the expected value. */
+export const expectValue = (actual: any, expected: any, label = 'value'): string | undefined =>
+  isEqual(actual, expected) ? undefined : `Expected ${label} to equal ${describe(expected)}, got ${describe(actual)}.`
+
+/** Returns a mismatch message if the result is not a list of the expected length. */
+export const expectLength = (actual: any, length: number, label = 'values'): string | undefined =>
+  !Array.isArray(actual)
+    ? `Expected ${label} to be a list, got ${describe(actual)}.`
+    : actual.length !== length
+    ? `Expected ${length} ${label}, got ${actual.length}.`
+    : undefined
+
+/** Returns a mismatch message if the result is not a list of the expected length where each value equals the expected value. */
+export const expectValues = (actual: any, length: number, expected: any, label = 'values'): string | undefined => {
+  const mismatch = expectLength(actual, length, label)
+  if (mismatch) return mismatch
+  const i = (actual as any[]).findIndex(value => !isEqual(value, expected))
+  return i === -1 ? undefined : expectValue(actual[i], expected, `${label}[${i}]`)
+}
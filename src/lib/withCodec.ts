@@ -0,0 +1,32 @@
+import Codec from '../types/Codec'
+import Database from '../types/Database'
+
+/** Wraps a Database so that values are encoded with the given codec on write and decoded on read. Operations that depend on the shape of stored values (indexes) or that decode synchronously (openCursor) are not supported by the wrapped Database. */
+const withCodec = (db: Database, codec: Codec): Database => {
+  /** Decodes an array of values. */
+  const decodeAll = (values: any[]) => Promise.all(values.map(codec.decode))
+
+  return {
+    available: db.available,
+    open: db.open,
+    close: db.close,
+    clear: db.clear,
+    setDurability: db.setDurability,
+    createStore: db.createStore,
+    get: async (storeName, key, mode) => codec.decode(await db.get(storeName, key, mode)),
+    getAll: db.getAll && (async (...args) => decodeAll(await db.getAll!(...args))),
+    getAllKeys: db.getAllKeys,
+    openKeyCursor: db.openKeyCursor,
+    bulkGet: async (storeNames, keys, mode) => decodeAll(await db.bulkGet(storeNames, keys, mode)),
+    set: async (storeName, key, value) => db.set(storeName, key, await codec.encode(value)),
+    bulkSet: async (storeNames, keys, values) =>
+      db.bulkSet(storeNames, keys, await Promise.all(values.map(codec.encode))),
+    put: db.put && (async (storeName, key, value) => db.put!(storeName, key, await codec.encode(value))),
+    delete: db.delete,
+    bulkDelete: db.bulkDelete,
+    deleteRange: db.deleteRange,
+    clearStore: db.clearStore,
+  }
+}
+
+export default withCodec
@@ -1,10 +1,18 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { helperParam, runContentionHelper } from './lib/contention'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// helper frames opened by the contention mode run load against the database instead of rendering the app
+const helperId = new URLSearchParams(location.search).get(helperParam)
+
+if (helperId != null) {
+  runContentionHelper(helperId)
+} else {
+  ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+}
@@ -1,45 +1,75 @@
 import dbs from './dbs/index'
 import keyValueBy from './lib/keyValueBy'
-import BenchmarkCase from './types/BenchmarkCase'
-import PayloadType from './types/PayloadType'
+import { generatePayload } from './lib/payload'
+import { randRange } from './lib/random'
+import { scenarioToTest } from './lib/scenario'
+import { expectValue, expectValues } from './lib/verify'
+import Database, { Durability } from './types/Database'
+import PayloadConfig from './types/PayloadConfig'
+import Scenario from './types/Scenario'
+import TestSpec from './types/TestSpec'
+import TestTag from './types/TestTag'
 
 const testStoreName = 'test'
 
-/** Calculates a random number from 0 to n. */
-const randRange = (n: number) => Math.floor(Math.random() * n)
-
-/** Generates data of a given type. */
-const generatePayload = (payloadType: PayloadType) => {
-  const value =
-    payloadType === 'String(1000)'
-      ? new Array(1000).fill(0).join('')
-      : payloadType === 'Uint8Array(1000)'
-      ? new Uint8Array(1000)
-      : null
-  if (value === null) {
-    throw new Error('Unsupported data type: ' + payloadType)
-  }
-  return value
-}
+/** Durability values that write cases are repeated for when durability is 'all'. */
+const durabilities: Durability[] = ['default', 'strict', 'relaxed']
 
-interface TestSpec {
-  prefill: string
-  measure: string
-  spec: Omit<BenchmarkCase, 'name'>
-}
+/** Returns a copy of the test that sets the durability of the adapter before it runs. If repeated is true, the durability is appended to the id and measure so that the copies can be told apart. */
+const withDurability = (db: Database, test: TestSpec, durability: Durability, repeated?: boolean): TestSpec => ({
+  ...test,
+  id: repeated ? `${test.id}-${durability}` : test.id,
+  measure: repeated ? `${test.measure} (${durability} durability)` : test.measure,
+  spec: {
+    ...test.spec,
+    before: async name => {
+      db.setDurability?.(durability)
+      await test.spec.before?.(name)
+    },
+  },
+})
+
+/** Sets the durability of the adapter before each test. If durability is 'all', write tests are repeated once for each durability value, and all other tests use relaxed durability. Adapters that do not support durability are left unchanged. */
+const applyDurability = (db: Database, durability: Durability | 'all', tests: TestSpec[]): TestSpec[] =>
+  !db.setDurability
+    ? tests
+    : tests.flatMap(test =>
+        durability !== 'all'
+          ? [withDurability(db, test, durability)]
+          : test.write
+          ? durabilities.map(value => withDurability(db, test, value, true))
+          : [withDurability(db, test, 'relaxed')],
+      )
+
+/** Marks the tests that call Database methods the adapter does not implement as unsupported. */
+const markUnsupported = (db: Database, tests: TestSpec[]): TestSpec[] =>
+  tests.map(test => (test.requires?.some(method => !db[method]) ? { ...test, unsupported: true } : test))
+
+/** Returns true if the test has at least one of the given tags, or if no tags are given. */
+export const hasTag = (test: Pick<TestSpec, 'tags'>, tags: TestTag[]) =>
+  tags.length === 0 || test.tags.some(tag => tags.includes(tag))
 
 const generateTests = ({
-  payloadType,
+  concurrency = 8,
+  durability = 'relaxed',
+  payload: payloadConfig,
   iterations,
   limit,
+  scenarios = [],
   total,
 }: {
-  payloadType: PayloadType
+  /** Number of in-flight operations in the concurrent tests. */
+  concurrency?: number
+  /** Durability of readwrite transactions, or 'all' to repeat write tests for each durability. */
+  durability?: Durability | 'all'
+  payload: PayloadConfig
   iterations: number
   limit: number
+  /** User-defined scenarios that are added after the built-in tests. */
+  scenarios?: Scenario[]
   total: number
 }): { [key: string]: TestSpec[] } => {
-  const payload = generatePayload(payloadType)
+  const payload = generatePayload(payloadConfig)
   const pages = Math.ceil(total / limit)
   return keyValueBy(dbs, (dbname, db) => {
     /** Create one object store with [iterations] records with keys [0..iterations-1]. */
@@ -58,6 +88,20 @@ const generateTests = ({
       await db.bulkSet(testStoreName, keys, values)
     }
 
+    // keys that a full page of the getAll (page) case can start at, sorted lexicographically
+    let pageStarts: string[] = []
+
+    /** Create one object store with [total] records with zero-padded keys, so that lexicographic key order matches numeric order. */
+    const padKey = (i: number) => i.toString().padStart(total.toString().length, '0')
+    const prefillPaddedRecords = async () => {
+      const keys = Array(total)
+        .fill(0)
+        .map((_, i) => padKey(i))
+      const values = keys.map(() => payload)
+      await db.createStore(testStoreName)
+      await db.bulkSet(testStoreName, keys, values)
+    }
+
     /** Create [total/limit] object stores with [limit] records with keys [0..liimit-1] in each. */
     const prefillObjectStores = async () => {
       // [total/limit] unique store names
@@ -72,220 +116,560 @@ const generateTests = ({
     }
 
     return {
-      [dbname]: [
-        {
-          prefill: '',
-          measure: 'get',
-          spec: {
-            before: prefillIterationsOnly,
-            measure: i => db.get(testStoreName, i),
-            after: db.clear,
+      [dbname]: markUnsupported(
+        db,
+        applyDurability(db, durability, [
+          {
+            id: 'get',
+            prefill: '',
+            measure: 'get',
+            tags: ['read'],
+            spec: {
+              before: prefillIterationsOnly,
+              // prefilled keys are strings
+              measure: i => db.get(testStoreName, i.toString()),
+              verify: async () => expectValue(await db.get(testStoreName, '0'), payload),
+              after: db.clear,
+            },
           },
-        },
-
-        {
-          prefill: '',
-          measure: 'bulkGet',
-          spec: {
-            bulk: limit,
-            before: prefillIterationsOnly,
-            measure: async i => {
-              const keys = Object.keys(Array(limit).fill(0))
-              await db.bulkGet?.(testStoreName, keys)
+
+          {
+            id: 'bulk-get',
+            prefill: '',
+            measure: 'bulkGet',
+            tags: ['read', 'bulk'],
+            spec: {
+              bulk: limit,
+              before: prefillIterationsOnly,
+              measure: async i => {
+                const keys = Object.keys(Array(limit).fill(0))
+                await db.bulkGet?.(testStoreName, keys)
+              },
+              verify: async () => {
+                const keys = Object.keys(Array(Math.min(limit, iterations)).fill(0))
+                return expectValues(await db.bulkGet(testStoreName, keys), keys.length, payload)
+              },
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: '',
-          measure: 'set',
-          spec: {
-            before: () => db.createStore(testStoreName),
-            measure: i => db.set(testStoreName, i, payload),
-            after: db.clear,
+
+          {
+            id: 'set',
+            prefill: '',
+            measure: 'set',
+            tags: ['write'],
+            write: true,
+            spec: {
+              before: () => db.createStore(testStoreName),
+              measure: i => db.set(testStoreName, i, payload),
+              after: db.clear,
+            },
           },
-        },
-
-        {
-          prefill: '',
-          measure: 'bulkSet',
-          spec: {
-            bulk: limit,
-            before: () => db.createStore(testStoreName),
-            measure: async i => {
-              const keys = Object.keys(Array(limit).fill(0))
-              const values = keys.map(() => payload)
-              await db.bulkSet?.(testStoreName, keys, values)
+
+          {
+            id: 'bulk-set',
+            prefill: '',
+            measure: 'bulkSet',
+            tags: ['write', 'bulk'],
+            write: true,
+            spec: {
+              bulk: limit,
+              before: () => db.createStore(testStoreName),
+              measure: async i => {
+                const keys = Object.keys(Array(limit).fill(0))
+                const values = keys.map(() => payload)
+                await db.bulkSet?.(testStoreName, keys, values)
+              },
+              postMeasure: async () => {
+                await db.clear()
+                await db.open?.()
+                await db.createStore(testStoreName)
+              },
+              after: db.clear,
             },
-            postMeasure: async () => {
-              await db.clear()
-              await db.open?.()
-              await db.createStore(testStoreName)
+          },
+
+          {
+            id: 'records-get',
+            prefill: 'records',
+            measure: 'get',
+            tags: ['read'],
+            spec: {
+              before: prefillRecords,
+              measure: i => db.get(testStoreName, randRange(total).toString()),
+              verify: async () => expectValue(await db.get(testStoreName, randRange(total).toString()), payload),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'records',
-          measure: 'get',
-          spec: {
-            before: prefillRecords,
-            measure: i => db.get(testStoreName, randRange(total)),
-            after: db.clear,
+
+          {
+            id: 'records-get-all',
+            prefill: 'records',
+            measure: 'getAll',
+            tags: ['read', 'bulk'],
+            requires: ['getAll'],
+            spec: {
+              bulk: total,
+              before: prefillRecords,
+              measure: async i => {
+                await db.getAll?.(testStoreName)
+              },
+              verify: async () => expectValues(await db.getAll!(testStoreName), total, payload),
+              after: db.clear,
+            },
           },
-        },
-
-        {
-          prefill: 'records',
-          measure: 'getAll',
-          spec: {
-            bulk: total,
-            before: prefillRecords,
-            measure: async i => {
-              await db.getAll?.(testStoreName)
+
+          {
+            id: 'records-bulk-get',
+            prefill: 'records',
+            measure: 'bulkGet',
+            tags: ['read', 'bulk'],
+            spec: {
+              bulk: limit,
+              before: prefillRecords,
+              measure: async i => {
+                const keys = Array(limit)
+                  .fill(0)
+                  .map(() => randRange(total).toString())
+                await db.bulkGet?.(testStoreName, keys, 'readonly')
+              },
+              verify: async () => {
+                const keys = Array(limit)
+                  .fill(0)
+                  .map(() => randRange(total).toString())
+                return expectValues(await db.bulkGet(testStoreName, keys, 'readonly'), limit, payload)
+              },
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'records',
-          measure: 'bulkGet',
-          spec: {
-            bulk: limit,
-            before: prefillRecords,
-            measure: async i => {
-              const keys = Array(limit)
-                .fill(0)
-                .map(() => randRange(total))
-              await db.bulkGet?.(testStoreName, keys, 'readonly')
+
+          {
+            id: 'records-get-all-page',
+            prefill: 'records',
+            measure: 'getAll (page)',
+            tags: ['read', 'bulk'],
+            requires: ['getAll'],
+            spec: {
+              bulk: limit,
+              before: async () => {
+                // prefilled keys are strings, so pages are in lexicographic order
+                // only keys with at least [limit] keys after them start a page, so every page is full
+                pageStarts = Object.keys(Array(total).fill(0))
+                  .sort()
+                  .slice(0, Math.max(1, total - limit + 1))
+                await prefillRecords()
+              },
+              measure: async i => {
+                await db.getAll?.(testStoreName, 'readonly', { lower: pageStarts[randRange(pageStarts.length)] }, limit)
+              },
+              // '0' is the lowest key, so the page is always full
+              verify: async () =>
+                expectValues(
+                  await db.getAll!(testStoreName, 'readonly', { lower: '0' }, limit),
+                  Math.min(limit, total),
+                  payload,
+                ),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'records',
-          measure: 'getAllByIndex',
-          spec: {
-            bulk: limit,
-            before: async () => {
-              const keys = Object.keys(Array(total).fill(0))
-              const values = keys.map((_, i) => ({
-                indexable: i % pages,
-                payload,
-              }))
-              await db.createStore(testStoreName)
-              await db.createIndex?.(testStoreName, 'indexable')
-              await db.bulkSet(testStoreName, keys, values)
+
+          {
+            id: 'records-get-all-keys',
+            prefill: 'records',
+            measure: 'getAllKeys',
+            tags: ['read', 'bulk'],
+            requires: ['getAllKeys'],
+            spec: {
+              bulk: total,
+              before: prefillRecords,
+              measure: async i => {
+                await db.getAllKeys?.(testStoreName)
+              },
+              after: db.clear,
             },
-            measure: async i => {
-              await db.getAllByIndex?.(testStoreName, 'indexable', randRange(pages))
+          },
+
+          {
+            id: 'records-open-cursor-page',
+            prefill: 'records',
+            measure: 'openCursor (page)',
+            tags: ['read', 'bulk'],
+            requires: ['openCursor'],
+            spec: {
+              bulk: limit,
+              before: prefillRecords,
+              measure: async i => {
+                let n = 0
+                await db.openCursor?.(
+                  testStoreName,
+                  { range: { lower: randRange(total).toString() } },
+                  () => ++n < limit,
+                )
+              },
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'records',
-          measure: 'set',
-          spec: {
-            before: () => db.createStore(testStoreName),
-            measure: i => db.set(testStoreName, i, payload),
-            after: db.clear,
+
+          {
+            id: 'records-open-cursor-page-prev',
+            prefill: 'records',
+            measure: 'openCursor (page, prev)',
+            tags: ['read', 'bulk'],
+            requires: ['openCursor'],
+            spec: {
+              bulk: limit,
+              before: prefillRecords,
+              measure: async i => {
+                let n = 0
+                await db.openCursor?.(
+                  testStoreName,
+                  { range: { upper: randRange(total).toString() }, direction: 'prev' },
+                  () => ++n < limit,
+                )
+              },
+              after: db.clear,
+            },
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'get (readonly)',
-          spec: {
-            before: prefillObjectStores,
-            measure: async i => {
-              const storeName = (i % pages).toString()
-              await db.get(storeName, randRange(limit), 'readonly')
+
+          {
+            id: 'records-open-key-cursor-page',
+            prefill: 'records',
+            measure: 'openKeyCursor (page)',
+            tags: ['read', 'bulk'],
+            requires: ['openKeyCursor'],
+            spec: {
+              bulk: limit,
+              before: prefillRecords,
+              measure: async i => {
+                let n = 0
+                await db.openKeyCursor?.(
+                  testStoreName,
+                  { range: { lower: randRange(total).toString() } },
+                  () => ++n < limit,
+                )
+              },
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'get (readwrite)',
-          spec: {
-            before: prefillObjectStores,
-            measure: async i => {
-              const storeName = (i % pages).toString()
-              await db.get(storeName, randRange(limit), 'readwrite')
+
+          {
+            id: 'records-get-all-by-index',
+            prefill: 'records',
+            measure: 'getAllByIndex',
+            tags: ['read', 'index'],
+            requires: ['createIndex', 'getAllByIndex'],
+            spec: {
+              bulk: limit,
+              before: async () => {
+                const keys = Object.keys(Array(total).fill(0))
+                const values = keys.map((_, i) => ({
+                  indexable: i % pages,
+                  payload,
+                }))
+                await db.createStore(testStoreName)
+                await db.createIndex?.(testStoreName, 'indexable')
+                await db.bulkSet(testStoreName, keys, values)
+              },
+              measure: async i => {
+                await db.getAllByIndex?.(testStoreName, 'indexable', randRange(pages))
+              },
+              // records i with i % pages === 0
+              verify: async () =>
+                expectValues(await db.getAllByIndex!(testStoreName, 'indexable', 0), Math.ceil(total / pages), {
+                  indexable: 0,
+                  payload,
+                }),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'getAll',
-          spec: {
-            bulk: limit,
-            before: prefillObjectStores,
-            measure: async i => {
-              const storeName = (i % pages).toString()
-              await db.getAll?.(storeName)
+
+          {
+            id: 'records-set',
+            prefill: 'records',
+            measure: 'set',
+            tags: ['write'],
+            write: true,
+            spec: {
+              before: () => db.createStore(testStoreName),
+              measure: i => db.set(testStoreName, i, payload),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'bulkGet (readonly)',
-          spec: {
-            bulk: limit,
-            before: prefillObjectStores,
-            measure: async i => {
-              const storeNames = Array(limit)
-                .fill(0)
-                .map((_, i) => (i % pages).toString())
-              const keys = storeNames.map((_, i) => i % limit)
-              await db.bulkGet?.(storeNames, keys, 'readonly')
+
+          {
+            id: 'records-put',
+            prefill: 'records',
+            measure: 'put (overwrite)',
+            tags: ['write'],
+            requires: ['put'],
+            write: true,
+            spec: {
+              before: prefillRecords,
+              measure: i => db.put?.(testStoreName, randRange(total).toString(), payload),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'bulkGet (readwrite)',
-          spec: {
-            bulk: limit,
-            before: prefillObjectStores,
-            measure: async i => {
-              const storeNames = Array(limit)
-                .fill(0)
-                .map((_, i) => (i % pages).toString())
-              const keys = storeNames.map((_, i) => i % limit)
-              await db.bulkGet?.(storeNames, keys, 'readonly')
+
+          {
+            id: 'records-delete',
+            prefill: 'records',
+            measure: 'delete',
+            tags: ['write'],
+            requires: ['delete'],
+            write: true,
+            spec: {
+              before: prefillRecords,
+              // keys are deleted in order so that each iteration deletes an existing record as long as iterations <= total
+              measure: i => db.delete?.(testStoreName, i.toString()),
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-
-        {
-          prefill: 'object stores',
-          measure: 'bulkGet (single store)',
-          spec: {
-            bulk: limit,
-            before: prefillObjectStores,
-            measure: async i => {
-              const keys = Object.keys(Array(limit).fill(0))
-              await db.bulkGet?.('0', keys, 'readonly')
+
+          {
+            id: 'records-bulk-delete',
+            prefill: 'records',
+            measure: 'bulkDelete',
+            tags: ['write', 'bulk'],
+            requires: ['bulkDelete'],
+            write: true,
+            spec: {
+              bulk: limit,
+              before: prefillRecords,
+              measure: async i => {
+                const keys = Array(limit)
+                  .fill(0)
+                  .map((_, j) => (i * limit + j).toString())
+                await db.bulkDelete?.(testStoreName, keys)
+              },
+              after: db.clear,
             },
-            after: db.clear,
           },
-        },
-      ],
+
+          {
+            id: 'records-delete-range',
+            prefill: 'records',
+            measure: 'deleteRange',
+            tags: ['write', 'bulk'],
+            requires: ['deleteRange'],
+            write: true,
+            spec: {
+              bulk: limit,
+              before: prefillPaddedRecords,
+              measure: async i => {
+                await db.deleteRange?.(testStoreName, {
+                  lower: padKey(i * limit),
+                  upper: padKey(i * limit + limit - 1),
+                })
+              },
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'records-get-concurrent-readonly',
+            prefill: 'records',
+            measure: `get (${concurrency} concurrent readonly)`,
+            tags: ['read'],
+            spec: {
+              concurrency,
+              before: prefillRecords,
+              measure: i => db.get(testStoreName, randRange(total).toString(), 'readonly'),
+              verify: async () =>
+                expectValue(await db.get(testStoreName, randRange(total).toString(), 'readonly'), payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'records-get-concurrent-readwrite',
+            prefill: 'records',
+            measure: `get (${concurrency} concurrent readwrite)`,
+            tags: ['read'],
+            spec: {
+              concurrency,
+              before: prefillRecords,
+              measure: i => db.get(testStoreName, randRange(total).toString(), 'readwrite'),
+              verify: async () =>
+                expectValue(await db.get(testStoreName, randRange(total).toString(), 'readwrite'), payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'records-put-concurrent',
+            prefill: 'records',
+            measure: `put (${concurrency} concurrent)`,
+            tags: ['write'],
+            requires: ['put'],
+            write: true,
+            spec: {
+              concurrency,
+              before: prefillRecords,
+              measure: i => db.put?.(testStoreName, randRange(total).toString(), payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-get-readonly',
+            prefill: 'object stores',
+            measure: 'get (readonly)',
+            tags: ['read', 'multi-store'],
+            spec: {
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeName = (i % pages).toString()
+                await db.get(storeName, randRange(limit), 'readonly')
+              },
+              verify: async () => expectValue(await db.get('0', randRange(limit), 'readonly'), payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-get-readwrite',
+            prefill: 'object stores',
+            measure: 'get (readwrite)',
+            tags: ['read', 'multi-store'],
+            spec: {
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeName = (i % pages).toString()
+                await db.get(storeName, randRange(limit), 'readwrite')
+              },
+              verify: async () => expectValue(await db.get('0', randRange(limit), 'readwrite'), payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-get-all',
+            prefill: 'object stores',
+            measure: 'getAll',
+            tags: ['read', 'bulk', 'multi-store'],
+            requires: ['getAll'],
+            spec: {
+              bulk: limit,
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeName = (i % pages).toString()
+                await db.getAll?.(storeName)
+              },
+              verify: async () => expectValues(await db.getAll!('0'), limit, payload),
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-bulk-get-readonly',
+            prefill: 'object stores',
+            measure: 'bulkGet (readonly)',
+            tags: ['read', 'bulk', 'multi-store'],
+            spec: {
+              bulk: limit,
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeNames = Array(limit)
+                  .fill(0)
+                  .map((_, i) => (i % pages).toString())
+                const keys = storeNames.map((_, i) => i % limit)
+                await db.bulkGet?.(storeNames, keys, 'readonly')
+              },
+              verify: async () => {
+                const storeNames = Array(limit)
+                  .fill(0)
+                  .map((_, i) => (i % pages).toString())
+                const keys = storeNames.map((_, i) => i % limit)
+                return expectValues(await db.bulkGet(storeNames, keys, 'readonly'), limit, payload)
+              },
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-bulk-get-readwrite',
+            prefill: 'object stores',
+            measure: 'bulkGet (readwrite)',
+            tags: ['read', 'bulk', 'multi-store'],
+            spec: {
+              bulk: limit,
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeNames = Array(limit)
+                  .fill(0)
+                  .map((_, i) => (i % pages).toString())
+                const keys = storeNames.map((_, i) => i % limit)
+                await db.bulkGet?.(storeNames, keys, 'readwrite')
+              },
+              verify: async () => {
+                const storeNames = Array(limit)
+                  .fill(0)
+                  .map((_, i) => (i % pages).toString())
+                const keys = storeNames.map((_, i) => i % limit)
+                return expectValues(await db.bulkGet(storeNames, keys, 'readwrite'), limit, payload)
+              },
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-bulk-get-single-store',
+            prefill: 'object stores',
+            measure: 'bulkGet (single store)',
+            tags: ['read', 'bulk', 'multi-store'],
+            spec: {
+              bulk: limit,
+              before: prefillObjectStores,
+              measure: async i => {
+                // object store keys are numbers
+                const keys = Array(limit)
+                  .fill(0)
+                  .map((_, j) => j)
+                await db.bulkGet?.('0', keys, 'readonly')
+              },
+              verify: async () => {
+                const keys = Array(limit)
+                  .fill(0)
+                  .map((_, j) => j)
+                return expectValues(await db.bulkGet('0', keys, 'readonly'), limit, payload)
+              },
+              after: db.clear,
+            },
+          },
+
+          {
+            id: 'object-stores-clear-store',
+            prefill: 'object stores',
+            measure: 'clearStore',
+            tags: ['write', 'bulk', 'multi-store'],
+            requires: ['clearStore'],
+            write: true,
+            spec: {
+              bulk: limit,
+              before: prefillObjectStores,
+              measure: async i => {
+                const storeName = (i % pages).toString()
+                await db.clearStore?.(storeName)
+              },
+              // refill the cleared store so that every iteration clears [limit] records
+              postMeasure: async i => {
+                const storeName = (i % pages).toString()
+                const keys = Array(limit)
+                  .fill(0)
+                  .map((_, j) => j)
+                await db.bulkSet(
+                  storeName,
+                  keys,
+                  keys.map(() => payload),
+                )
+              },
+              after: db.clear,
+            },
+          },
+
+          ...scenarios.map(scenario => scenarioToTest(db, scenario, payload)),
+        ]),
+      ),
     }
   })
 }
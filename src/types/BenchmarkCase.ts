@@ -3,6 +3,8 @@ interface BenchmarkCase {
   name: string
   /** Custom number of measurable operations performed a single measure loop (default: 1). The measured time will be divided by this value so that it is comparable non-bulk tests. */
   bulk?: number
+  /** Number of iterations that are in flight at the same time (default: 1). Used to measure throughput and latency under load. */
+  concurrency?: number
   /** Callback invoked once before any iterations of a case (after preMeasure). */
   before?: (name: string) => void | Promise<void>
   /** The function to be executed once per iteration before measurement starts. Useful for prefilling the database. */
@@ -11,6 +13,8 @@ interface BenchmarkCase {
   postMeasure?: (i: number) => void | Promise<void>
   /** The function that will be executed and measured once for each iteration. */
   measure: (i: number) => void | Promise<void>
+  /** Checks that the operation returns the expected data after the database has been prefilled. Resolves to a description of the mismatch, or undefined if the data is correct. Only called if verification is enabled. */
+  verify?: () => Promise<string | undefined>
   /** Callback invoked once after all iterations of a case have run. Still called if run is aborted. */
   after?: (name: string) => void | Promise<void>
 }
@@ -0,0 +1,33 @@
+import { Durability } from './Database'
+import OutlierFilter from './OutlierFilter'
+import PayloadConfig from './PayloadConfig'
+import Scenario from './Scenario'
+
+/** Serializable parameters needed to generate and run the test suite outside of the React app. */
+interface BenchmarkConfig {
+  payload: PayloadConfig
+  total: number
+  limit: number
+  iterations: number
+  warmupIterations: number
+  outliers: OutlierFilter
+  /** Durability of readwrite transactions, or 'all' to repeat write tests for each durability. */
+  durability: Durability | 'all'
+  scenarios: Scenario[]
+  /** Number of in-flight operations in the concurrent tests. */
+  concurrency: number
+  /** Checks that read cases return the prefilled data before they are measured. */
+  verify: boolean
+  /** Maximum number of milliseconds of a single iteration, or 0 for no limit. */
+  iterationTimeout: number
+  /** Maximum number of milliseconds of a whole case, excluding its after callback, or 0 for no limit. */
+  caseTimeout: number
+  /** Maximum number of milliseconds of the before and after callbacks of a case, or 0 for no limit. */
+  setupTimeout: number
+  /** Number of times to run the whole suite, in a shuffled order each round. */
+  rounds: number
+  /** Seed of the shuffled case order. */
+  orderSeed: number
+}
+
+export default BenchmarkConfig
@@ -1,7 +1,22 @@
-interface BenchmarkResult {
-  mean?: number
+import BenchmarkStats from './BenchmarkStats'
+import CaseError from './CaseError'
+import ContentionEvents from './ContentionEvents'
+
+interface BenchmarkResult extends Partial<BenchmarkStats> {
   beforeProgress?: number
   progress?: number
+  /** Milliseconds of each measured iteration, by iteration index. */
+  timeline?: number[]
+  /** Set after the case is checked by the verification pass. */
+  verified?: boolean
+  /** Description of the wrong data returned by the case, if verification failed. */
+  mismatch?: string
+  /** Set if the case threw. The case has no stats in this case. */
+  error?: CaseError
+  /** Set if the adapter is not available in the context the case was run in, e.g. localStorage in a worker. The case is not run. */
+  unsupported?: boolean
+  /** Connection events and helper activity while the case ran under contention. */
+  contention?: ContentionEvents
 }
 
 export default BenchmarkResult
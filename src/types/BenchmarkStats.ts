@@ -0,0 +1,41 @@
+/** Summary statistics of the per-iteration samples of a single case. All times are in milliseconds. */
+interface BenchmarkStats {
+  /** The mean number of milliseconds of an iteration. */
+  mean: number
+  /** The 50th percentile. */
+  median: number
+  /** The 90th percentile. */
+  p90: number
+  /** The 95th percentile. */
+  p95: number
+  /** The 99th percentile. */
+  p99: number
+  /** The fastest iteration. */
+  min: number
+  /** The slowest iteration. */
+  max: number
+  /** The sample standard deviation. */
+  deviation: number
+  /** The margin of error at a 95% confidence level. */
+  moe: number
+  /** The relative margin of error as a percentage of the mean. */
+  rme: number
+  /** The 95% confidence interval of the mean as [lower, upper]. */
+  ci: [number, number]
+  /** The number of samples the statistics were calculated from. */
+  samples: number
+  /** The number of samples dropped by the outlier filter. */
+  rejected: number
+  /** The number of operations completed per second over the whole case, including time spent waiting on other in-flight operations. */
+  throughput?: number
+  /** The number of iterations that were in flight at the same time. */
+  concurrency?: number
+  /** The number of rounds the samples were combined from, if the suite was run in multiple rounds. */
+  rounds?: number
+  /** The mean of each round, in the order the rounds were run. */
+  roundMeans?: number[]
+  /** The sample standard deviation of the round means. A difference between two cases that is smaller than this is not trustworthy. */
+  roundDeviation?: number
+}
+
+export default BenchmarkStats
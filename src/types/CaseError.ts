@@ -0,0 +1,14 @@
+/** Part of a case that was running when an error was thrown. */
+export type CasePhase = 'before' | 'preMeasure' | 'verify' | 'warmup' | 'measure' | 'postMeasure' | 'after'
+
+/** An error thrown by a case, e.g. a ConstraintError or QuotaExceededError, or a TimeoutError if the case took too long. The case is stopped, but the rest of the suite continues. */
+interface CaseError {
+  /** The name of the error, e.g. the DOMException name. */
+  name: string
+  message: string
+  phase: CasePhase
+  /** The index of the iteration that threw, if the error was thrown in an iteration. */
+  iteration?: number
+}
+
+export default CaseError
@@ -0,0 +1,9 @@
+/** Encodes values before they are written to a Database and decodes them after they are read. */
+interface Codec {
+  /** Short name used to label wrapped adapters, e.g. 'gzip'. */
+  name: string
+  encode: (value: any) => Promise<any>
+  decode: (value: any) => Promise<any>
+}
+
+export default Codec
@@ -0,0 +1,13 @@
+/** Connection events and helper activity recorded while a case ran under contention. */
+interface ContentionEvents {
+  /** Number of times an upgrade or delete on this page was blocked by another open connection. */
+  blocked: number
+  /** Number of times a helper closed its connection because this page requested a version change. */
+  versionchange: number
+  /** Number of operations completed by the helpers. */
+  ops: number
+  /** Number of helper operations that failed, e.g. transactions aborted by a version change. */
+  errors: number
+}
+
+export default ContentionEvents
@@ -0,0 +1,4 @@
+/** Load that helper frames run against the shared IndexedDB database while the suite runs. off: no helpers are started. */
+type ContentionLoad = 'off' | 'read' | 'write'
+
+export default ContentionLoad
@@ -0,0 +1,11 @@
+import ContentionLoad from './ContentionLoad'
+
+/** Messages broadcast between the benchmark page and its contention helpers over a BroadcastChannel. */
+type ContentionMessage =
+  | { type: 'start'; load: Exclude<ContentionLoad, 'off'> }
+  | { type: 'stop' }
+  | { type: 'ready'; id: string }
+  /** Counts since the helper's previous stats message. */
+  | { type: 'stats'; id: string; ops: number; errors: number; versionchange: number }
+
+export default ContentionMessage
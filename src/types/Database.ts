@@ -1,19 +1,59 @@
 type Mode = 'readonly' | 'readwrite'
+export type Durability = 'default' | 'strict' | 'relaxed'
 type StoreName = string
-type RecordKey = string | number
+export type RecordKey = string | number
+export type CursorDirection = 'next' | 'nextunique' | 'prev' | 'prevunique'
+
+/** An adapter-agnostic key range. Omitted bounds are unbounded. Bounds are inclusive unless marked open. */
+export interface KeyRange {
+  lower?: RecordKey
+  upper?: RecordKey
+  lowerOpen?: boolean
+  upperOpen?: boolean
+}
+
+export interface CursorOptions {
+  range?: KeyRange
+  direction?: CursorDirection
+  mode?: Mode
+}
 
 interface Database {
+  /** Returns false if the adapter cannot run in the current context, e.g. localStorage in a Web Worker. */
+  available?: () => boolean
   open?: () => Promise<void>
   close?: () => Promise<void>
   clear: () => Promise<void>
+  /** Sets the durability hint of subsequent readwrite transactions. */
+  setDurability?: (durability: Durability) => void
   createIndex?: (storeName: StoreName, keyPath: string) => Promise<void>
   createStore: (names: string | string[]) => Promise<void>
   get: (storeName: StoreName, key: RecordKey, mode?: Mode) => Promise<any>
-  getAll?: (storeName: StoreName, mode?: Mode) => Promise<any[]>
+  getAll?: (storeName: StoreName, mode?: Mode, range?: KeyRange, count?: number) => Promise<any[]>
+  getAllKeys?: (storeName: StoreName, range?: KeyRange, count?: number, mode?: Mode) => Promise<RecordKey[]>
+  /** Iterates over records in key order. Return false from onRecord to stop iterating. */
+  openCursor?: (
+    storeName: StoreName,
+    options: CursorOptions,
+    onRecord: (key: RecordKey, value: any) => boolean | void,
+  ) => Promise<void>
+  /** Iterates over keys in key order without loading values. Return false from onKey to stop iterating. */
+  openKeyCursor?: (
+    storeName: StoreName,
+    options: CursorOptions,
+    onKey: (key: RecordKey) => boolean | void,
+  ) => Promise<void>
   getAllByIndex?: (storeName: StoreName, indexName: string, key: any, mode?: Mode) => Promise<any[]>
   bulkGet: (storeNames: StoreName | StoreName[], keys: RecordKey[], mode?: Mode) => Promise<any[]>
   set: (storeName: StoreName, key: RecordKey, value: any) => Promise<void>
   bulkSet: (storeNames: StoreName | StoreName[], keys: RecordKey[], values: any[]) => Promise<void>
+  /** Sets a value, overwriting any existing value at the key. */
+  put?: (storeName: StoreName, key: RecordKey, value: any) => Promise<void>
+  delete?: (storeName: StoreName, key: RecordKey) => Promise<void>
+  bulkDelete?: (storeNames: StoreName | StoreName[], keys: RecordKey[]) => Promise<void>
+  deleteRange?: (storeName: StoreName, range: KeyRange) => Promise<void>
+  /** Deletes all records in a store without deleting the store. */
+  clearStore?: (storeName: StoreName) => Promise<void>
 }
 
 export default Database
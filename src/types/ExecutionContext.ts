@@ -0,0 +1,4 @@
+/** Thread the benchmark runs on. both: runs the suite on the main thread, then again in a Web Worker, for comparison. */
+type ExecutionContext = 'main' | 'worker' | 'both'
+
+export default ExecutionContext
@@ -0,0 +1,4 @@
+/** Method used to drop outlier samples before calculating statistics. iqr: Tukey's fences (1.5 × IQR). mad: median absolute deviation (modified z-score > 3.5). */
+type OutlierFilter = 'none' | 'iqr' | 'mad'
+
+export default OutlierFilter
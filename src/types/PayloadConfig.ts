@@ -0,0 +1,18 @@
+import PayloadType from './PayloadType'
+
+/** Content of generated payloads. zeros: all zero bytes or '0' characters. random: incompressible. compressible: random characters from a small alphabet. */
+export type PayloadContent = 'zeros' | 'random' | 'compressible'
+
+/** Describes the value stored in a single record. */
+interface PayloadConfig {
+  type: PayloadType
+  /** Approximate size of the payload in bytes. */
+  size: number
+  content: PayloadContent
+  /** Number of fields of an Object, items of an Array, or entries of a Map. The size is divided evenly between them. */
+  fields: number
+  /** Seed of the random number generator, so that random payloads can be reproduced. */
+  seed: number
+}
+
+export default PayloadConfig
@@ -1,3 +1,4 @@
-type PayloadType = 'String(1000)' | 'Uint8Array(1000)'
+/** Shape of the value stored in a single record. */
+type PayloadType = 'String' | 'Uint8Array' | 'ArrayBuffer' | 'Blob' | 'Object' | 'Array' | 'Date' | 'Map'
 
 export default PayloadType
@@ -0,0 +1,36 @@
+import BenchmarkResult from './BenchmarkResult'
+import { Durability } from './Database'
+import PayloadConfig from './PayloadConfig'
+
+/** A serializable snapshot of a benchmark run, including the config and environment it was run in. */
+interface RunExport {
+  /** Format version of the export, incremented on breaking changes. */
+  version: 3
+  /** ISO 8601 timestamp of when the export was created. */
+  timestamp: string
+  config: {
+    payload: PayloadConfig
+    total: number
+    limit: number
+    iterations: number
+    durability?: Durability | 'all'
+    concurrency?: number
+    rounds?: number
+    orderSeed?: number
+  }
+  environment: {
+    userAgent: string
+    hardwareConcurrency?: number
+    /** Result of navigator.storage.estimate(), if supported. */
+    storage?: {
+      quota?: number
+      usage?: number
+    }
+  }
+  /** Skipped cases keyed by `${dbname}-${id}`. */
+  skipped: { [key: string]: boolean }
+  /** Case results keyed by `${dbname}-${id}`. */
+  results: { [key: string]: BenchmarkResult }
+}
+
+export default RunExport
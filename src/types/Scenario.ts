@@ -0,0 +1,40 @@
+/** Database methods that can be measured by a scenario. */
+export type ScenarioMethod =
+  | 'get'
+  | 'bulkGet'
+  | 'getAll'
+  | 'getAllKeys'
+  | 'getAllByIndex'
+  | 'set'
+  | 'bulkSet'
+  | 'put'
+  | 'delete'
+  | 'bulkDelete'
+  | 'clearStore'
+
+/** A declarative, JSON-serializable benchmark case. */
+interface Scenario {
+  /** Shown in the Measure column of the results table. Must be unique. */
+  name: string
+  prefill: {
+    /** Number of records in each store, with keys [0..records-1]. */
+    records: number
+    /** Number of object stores, named [0..stores-1]. */
+    stores: number
+    /** Indexes to create on each store. Each record gets an [keyPath] property of (record index % distinct). */
+    indexes?: { keyPath: string; distinct: number }[]
+  }
+  operation: {
+    method: ScenarioMethod
+    /** How keys and stores are selected in each iteration. sequential: by iteration index. random: uniformly at random. Writes of new records (set, bulkSet) always use new sequential keys. */
+    keys: 'sequential' | 'random'
+    /** Number of records per operation for bulk methods (default: 1). */
+    bulk?: number
+    /** Index to query for getAllByIndex. Defaults to the first index. */
+    index?: string
+  }
+  /** Transaction mode of read methods (default: readonly). */
+  mode?: 'readonly' | 'readwrite'
+}
+
+export default Scenario
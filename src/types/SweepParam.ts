@@ -0,0 +1,4 @@
+/** A config param that can be swept. size is the payload size in bytes. */
+type SweepParam = 'total' | 'limit' | 'size'
+
+export default SweepParam
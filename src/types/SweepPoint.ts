@@ -0,0 +1,12 @@
+import BenchmarkStats from './BenchmarkStats'
+import SweepParam from './SweepParam'
+
+/** The results of a single combination of a parameter sweep. */
+interface SweepPoint {
+  /** Values of the swept params. Params that were not swept use the config value. */
+  params: { [param in SweepParam]: number }
+  /** Results by db name, then by test id. */
+  results: { [dbName: string]: { [testName: string]: BenchmarkStats } }
+}
+
+export default SweepPoint
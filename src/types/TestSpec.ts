@@ -0,0 +1,21 @@
+import BenchmarkCase from './BenchmarkCase'
+import Database from './Database'
+import TestTag from './TestTag'
+
+/** A generated test case for a single db, identified by `${dbname}-${id}`. */
+interface TestSpec {
+  /** Identifier of the case that is unique among the cases of a db and does not change with the config. */
+  id: string
+  prefill: string
+  measure: string
+  tags: TestTag[]
+  /** Optional Database methods that the case calls. The case is marked unsupported on adapters that do not implement all of them. */
+  requires?: (keyof Database)[]
+  /** Set when the db does not implement one of the required methods. Unsupported cases are shown but not run. */
+  unsupported?: boolean
+  /** Set to true if the measured operation writes to the database. */
+  write?: boolean
+  spec: Omit<BenchmarkCase, 'name'>
+}
+
+export default TestSpec
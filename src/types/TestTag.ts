@@ -0,0 +1,4 @@
+/** Tags that describe what a test case exercises. Used to filter the results table. */
+type TestTag = 'read' | 'write' | 'bulk' | 'index' | 'multi-store'
+
+export default TestTag
@@ -0,0 +1,24 @@
+import BenchmarkConfig from './BenchmarkConfig'
+import BenchmarkStats from './BenchmarkStats'
+import CaseError from './CaseError'
+
+/** Messages sent from the main thread to the benchmark worker. */
+export type WorkerRequest =
+  | {
+      type: 'run'
+      config: BenchmarkConfig
+      /** Keys of the cases to run, i.e. `${dbname}-${id}`. */
+      testKeys: string[]
+    }
+  | { type: 'cancel' }
+
+/** Messages sent from the benchmark worker back to the main thread. */
+export type WorkerResponse =
+  | { type: 'iteration'; name: string; stats: { i: number; ms: number; mean: number } }
+  | { type: 'preMeasureIteration'; name: string; stats: { i: number } }
+  | { type: 'cycle'; name: string; stats: BenchmarkStats }
+  | { type: 'verified'; name: string; mismatch?: string }
+  | { type: 'failed'; name: string; error: CaseError }
+  | { type: 'unsupported'; name: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string }
@@ -0,0 +1,88 @@
+import dbs, { DatabaseName } from './dbs/index'
+import Benchmark from './lib/Benchmark'
+import getTestKey from './lib/getTestKey'
+import generateTests from './tests'
+import { WorkerRequest, WorkerResponse } from './types/WorkerMessage'
+
+/** Posts a typed message to the main thread. */
+const post = (message: WorkerResponse) => self.postMessage(message)
+
+let benchmark: ReturnType<typeof Benchmark> | null = null
+
+/** Generates the test suite in the worker and runs the cases with the given keys. Progress and results are posted back to the main thread. */
+const run = async ({ config, testKeys }: Extract<WorkerRequest, { type: 'run' }>) => {
+  const tests = generateTests(config)
+  const keys = new Set(testKeys)
+  const dbnames = (Object.keys(tests) as DatabaseName[]).filter(dbname =>
+    tests[dbname].some(test => keys.has(getTestKey(dbname, test))),
+  )
+
+  // report the cases of adapters that are not available in a worker, such as localStorage, as unsupported
+  dbnames
+    .filter(dbname => dbs[dbname].available?.() === false)
+    .forEach(dbname => {
+      tests[dbname].forEach(test => {
+        const testKey = getTestKey(dbname, test)
+        if (keys.has(testKey)) {
+          post({ type: 'unsupported', name: testKey })
+        }
+      })
+    })
+  const availableDbnames = dbnames.filter(dbname => dbs[dbname].available?.() !== false)
+
+  /** Clears the databases that are being benchmarked. */
+  const clearDbs = async () => {
+    for (const dbname of availableDbnames) {
+      await dbs[dbname].clear()
+    }
+  }
+
+  benchmark = Benchmark({
+    iterations: config.iterations,
+    warmupIterations: config.warmupIterations,
+    outliers: config.outliers,
+    verify: config.verify,
+    iterationTimeout: config.iterationTimeout,
+    caseTimeout: config.caseTimeout,
+    setupTimeout: config.setupTimeout,
+    rounds: config.rounds,
+    orderSeed: config.orderSeed,
+    verified: (name, mismatch) => post({ type: 'verified', name, mismatch }),
+    failed: (name, error) => post({ type: 'failed', name, error }),
+    iteration: (name, stats) => post({ type: 'iteration', name, stats }),
+    preMeasureIteration: (name, stats) => post({ type: 'preMeasureIteration', name, stats }),
+    preMeasureIterations: config.total,
+    cycle: (name, stats) => post({ type: 'cycle', name, stats }),
+    beforeAll: clearDbs,
+    afterAll: clearDbs,
+  })
+
+  for (const dbname of availableDbnames) {
+    const db = dbs[dbname]
+    await db.open?.()
+    tests[dbname].forEach(test => {
+      const testKey = getTestKey(dbname, test)
+      if (keys.has(testKey)) {
+        benchmark!.add(testKey, test.spec)
+      }
+    })
+    await db.close?.()
+  }
+
+  await benchmark.run()
+  benchmark = null
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data
+  if (message.type === 'run') {
+    try {
+      await run(message)
+      post({ type: 'done' })
+    } catch (err) {
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    }
+  } else if (message.type === 'cancel') {
+    benchmark?.cancel()
+  }
+}